@@ -0,0 +1,249 @@
+import { Injectable } from '@angular/core';
+
+export interface VaultKey {
+  key: string;
+  /** Optional name, e.g. the key owner or project. */
+  label: string;
+}
+
+/** What the vault encrypts: the Gemini keys and other named secrets, such as the OpenAI-compatible key. */
+interface VaultContent {
+  keys: VaultKey[];
+  secrets: { [name: string]: string | undefined };
+}
+
+/** The vault as stored in localStorage and exported: only the salt, IV and ciphertext. */
+interface EncryptedVault {
+  format: 'api-key-vault';
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+const PBKDF2_ITERATIONS = 600000;
+
+/** Key saved in plain text by earlier versions; migrated into the vault when it is created. */
+const LEGACY_STORAGE_KEY = 'savedApiKeys';
+
+/**
+ * SHA-256 of the key bundled with earlier versions, which re-added it on every
+ * load. It is left out of the migration; only its hash is kept, not the key.
+ */
+const LEGACY_DEFAULT_KEY_HASH = '249cdda969fce22e4bd7edb6062000616b196fe8f1eaa40bbd52b2c5e2e97f87';
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => binary += String.fromCharCode(byte));
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function parseVault(json: string): EncryptedVault {
+  const vault = JSON.parse(json) as Partial<EncryptedVault>;
+  if (vault.format !== 'api-key-vault' || !vault.salt || !vault.iv || !vault.data || !vault.iterations) {
+    throw new Error('The file is not an exported API key vault.');
+  }
+  return vault as EncryptedVault;
+}
+
+async function decryptVault(vault: EncryptedVault, passphrase: string): Promise<VaultContent & { cryptoKey: CryptoKey }> {
+  const cryptoKey = await deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vault.iv) }, cryptoKey, fromBase64(vault.data));
+  } catch {
+    // AES-GCM cannot tell a wrong passphrase from a damaged file
+    throw new Error('Wrong passphrase, or the vault is damaged.');
+  }
+  const content = JSON.parse(new TextDecoder().decode(plaintext)) as VaultContent | VaultKey[];
+  // Vaults written before secrets were added hold only the list of keys
+  return Array.isArray(content)
+    ? { keys: content, secrets: {}, cryptoKey }
+    : { keys: content.keys || [], secrets: content.secrets || {}, cryptoKey };
+}
+
+/**
+ * API keys and other secrets encrypted with a passphrase (PBKDF2 + AES-GCM). Only the ciphertext
+ * is stored; the derived key stays in memory, so the vault is unlocked once
+ * per page load and nothing readable is left in localStorage.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ApiKeyVaultService {
+  private readonly STORAGE_KEY = 'apiKeyVault';
+  private keys: VaultKey[] = [];
+  private secrets: { [name: string]: string | undefined } = {};
+  private cryptoKey: CryptoKey | null = null;
+  private salt: Uint8Array | null = null;
+  private iterations = PBKDF2_ITERATIONS;
+
+  hasVault(): boolean {
+    return localStorage.getItem(this.STORAGE_KEY) !== null;
+  }
+
+  get isUnlocked(): boolean {
+    return this.cryptoKey !== null;
+  }
+
+  getKeys(): VaultKey[] {
+    return this.keys;
+  }
+
+  getSecret(name: string): string | undefined {
+    return this.secrets[name];
+  }
+
+  /** Saves a named secret; an empty value removes it. */
+  async setSecret(name: string, value: string): Promise<void> {
+    if (value) {
+      this.secrets[name] = value;
+    } else {
+      delete this.secrets[name];
+    }
+    await this.save();
+  }
+
+  /** Plain-text keys left by earlier versions, without the formerly bundled key. */
+  async getLegacyKeys(): Promise<string[]> {
+    const saved: string[] = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) || '[]');
+    const keys: string[] = [];
+    for (const key of saved) {
+      if (await sha256Hex(key) !== LEGACY_DEFAULT_KEY_HASH) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+
+  /** Creates an empty vault, moving any plain-text keys from earlier versions into it. */
+  async create(passphrase: string): Promise<void> {
+    if (!passphrase) {
+      throw new Error('Please enter a passphrase.');
+    }
+    this.salt = crypto.getRandomValues(new Uint8Array(16));
+    this.iterations = PBKDF2_ITERATIONS;
+    this.cryptoKey = await deriveKey(passphrase, this.salt, this.iterations);
+    this.keys = (await this.getLegacyKeys()).map(key => ({ key, label: '' }));
+    this.secrets = {};
+    await this.save();
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+
+  async unlock(passphrase: string): Promise<void> {
+    const stored = localStorage.getItem(this.STORAGE_KEY);
+    if (!stored) {
+      throw new Error('There is no key vault in this browser yet.');
+    }
+    const vault = parseVault(stored);
+    const { keys, secrets, cryptoKey } = await decryptVault(vault, passphrase);
+    this.keys = keys;
+    this.secrets = secrets;
+    this.cryptoKey = cryptoKey;
+    this.salt = fromBase64(vault.salt);
+    this.iterations = vault.iterations;
+  }
+
+  lock(): void {
+    this.keys = [];
+    this.secrets = {};
+    this.cryptoKey = null;
+    this.salt = null;
+  }
+
+  async addKey(key: string, label: string = ''): Promise<void> {
+    if (this.keys.some(entry => entry.key === key)) {
+      throw new Error('This API key is already saved.');
+    }
+    this.keys.unshift({ key, label: label.trim() });
+    await this.save();
+  }
+
+  async setLabel(index: number, label: string): Promise<void> {
+    this.keys[index].label = label.trim();
+    await this.save();
+  }
+
+  async removeKey(index: number): Promise<void> {
+    this.keys.splice(index, 1);
+    await this.save();
+  }
+
+  /** The encrypted vault exactly as stored; it opens with the same passphrase. */
+  exportVault(): string {
+    const stored = localStorage.getItem(this.STORAGE_KEY);
+    if (!stored) {
+      throw new Error('There is no key vault to export.');
+    }
+    return JSON.stringify(JSON.parse(stored), null, 2);
+  }
+
+  /**
+   * Opens an exported vault with its passphrase. Without a vault in this browser
+   * it becomes the vault, taking in any plain-text keys from earlier versions as
+   * `create` does; otherwise its keys are added to the unlocked one.
+   * Returns the number of keys added.
+   */
+  async importVault(json: string, passphrase: string): Promise<number> {
+    const vault = parseVault(json);
+    const { keys, secrets, cryptoKey } = await decryptVault(vault, passphrase);
+    if (!this.hasVault()) {
+      const legacyKeys = (await this.getLegacyKeys()).filter(key => !keys.some(entry => entry.key === key));
+      this.keys = [...keys, ...legacyKeys.map(key => ({ key, label: '' }))];
+      this.secrets = secrets;
+      this.cryptoKey = cryptoKey;
+      this.salt = fromBase64(vault.salt);
+      this.iterations = vault.iterations;
+      await this.save();
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      return this.keys.length;
+    }
+    if (!this.isUnlocked) {
+      throw new Error('Please unlock your key vault before importing another one into it.');
+    }
+    const added = keys.filter(imported => !this.keys.some(entry => entry.key === imported.key));
+    this.keys.push(...added);
+    // Secrets already in this vault win over the imported ones
+    this.secrets = { ...secrets, ...this.secrets };
+    await this.save();
+    return added.length;
+  }
+
+  private async save(): Promise<void> {
+    if (!this.cryptoKey || !this.salt) {
+      throw new Error('The key vault is locked.');
+    }
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, this.cryptoKey, new TextEncoder().encode(JSON.stringify({ keys: this.keys, secrets: this.secrets })));
+    const vault: EncryptedVault = {
+      format: 'api-key-vault',
+      version: 1,
+      iterations: this.iterations,
+      salt: toBase64(this.salt),
+      iv: toBase64(iv),
+      data: toBase64(new Uint8Array(data))
+    };
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(vault));
+  }
+}
@@ -0,0 +1,44 @@
+/** Scores below this are flagged in the preview as possible meaning drift. */
+export const LOW_SIMILARITY_THRESHOLD = 0.6;
+
+/** Which rows a back-translation pass covers. */
+export type BackTranslationScope = 'all' | 'flagged';
+
+/** One back-translated cell, shown next to its original English. */
+export interface BackTranslationItem {
+  rowIndex: number;
+  /** Original (untranslated) column header. */
+  column: string;
+  original: string;
+  backTranslation: string;
+  /** Similarity of the back-translation to the original, from 0 to 1. */
+  score: number;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Word-overlap similarity between the original English and its back-translation,
+ * from 0 (nothing in common) to 1 (the same words). Counts repeated words, so
+ * "not not" and "not" differ, and ignores case, punctuation and word order.
+ */
+export function similarityScore(original: string, backTranslation: string): number {
+  const originalWords = tokenize(original);
+  const backWords = tokenize(backTranslation);
+  if (originalWords.length === 0 && backWords.length === 0) return 1;
+  if (originalWords.length === 0 || backWords.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  originalWords.forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+  let common = 0;
+  backWords.forEach(word => {
+    const remaining = counts.get(word) || 0;
+    if (remaining > 0) {
+      common++;
+      counts.set(word, remaining - 1);
+    }
+  });
+  return (2 * common) / (originalWords.length + backWords.length);
+}
@@ -0,0 +1,186 @@
+import { DEFAULT_SCHEDULER_SETTINGS, RateLimiter, SchedulerSettings, estimateTokens, planChunkSizes } from './chunk-scheduler';
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token, rounding up', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
+
+describe('planChunkSizes', () => {
+  const settings: SchedulerSettings = { ...DEFAULT_SCHEDULER_SETTINGS, concurrency: 2, initialChunkSize: 3, maxChunkSize: 5 };
+
+  it('sends the first chunks at the initial size and grows later ones by a row up to the maximum', () => {
+    expect(planChunkSizes(30, settings)).toEqual([3, 3, 4, 5, 5, 5, 5]);
+  });
+
+  it('shortens the last chunk to the rows left', () => {
+    expect(planChunkSizes(7, settings)).toEqual([3, 3, 1]);
+  });
+
+  it('plans nothing for no rows', () => {
+    expect(planChunkSizes(0, settings)).toEqual([]);
+  });
+
+  it('treats settings below one as one', () => {
+    expect(planChunkSizes(3, { ...settings, concurrency: 0, initialChunkSize: 0, maxChunkSize: 0 })).toEqual([1, 1, 1]);
+  });
+
+  it('caps the initial size at the maximum', () => {
+    expect(planChunkSizes(10, { ...settings, initialChunkSize: 8 })).toEqual([5, 5]);
+  });
+});
+
+describe('RateLimiter', () => {
+  let settled: boolean;
+
+  /** Starts an `acquire` and records when it resolves. */
+  function acquire(limiter: RateLimiter, tokens: number): Promise<void> {
+    settled = false;
+    return limiter.acquire(tokens).then(() => { settled = true; });
+  }
+
+  /** Lets pending promise callbacks run, as the clock is mocked. */
+  async function flush(): Promise<void> {
+    for (let i = 0; i < 5; i++) {
+      await Promise.resolve();
+    }
+  }
+
+  beforeEach(() => {
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(2024, 0, 1));
+    spyOn(console, 'warn');
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  it('lets requests through until the per-minute limit, then waits for the window to slide', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 2, tokensPerMinute: 0 });
+    await limiter.acquire(10);
+    jasmine.clock().tick(1000);
+    await limiter.acquire(10);
+
+    const third = acquire(limiter, 10);
+    await flush();
+    expect(settled).toBeFalse();
+    jasmine.clock().tick(59000);
+    await third;
+    expect(settled).toBeTrue();
+  });
+
+  it('has no limit when both limits are 0', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 0, tokensPerMinute: 0 });
+    for (let i = 0; i < 100; i++) {
+      await limiter.acquire(1000);
+    }
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it('waits until enough tokens leave the window', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 0, tokensPerMinute: 100 });
+    await limiter.acquire(60);
+    jasmine.clock().tick(10000);
+    await limiter.acquire(30);
+
+    const next = acquire(limiter, 50);
+    await flush();
+    expect(settled).toBeFalse();
+    jasmine.clock().tick(49999);
+    await flush();
+    expect(settled).toBeFalse();
+    jasmine.clock().tick(1);
+    await next;
+    expect(settled).toBeTrue();
+  });
+
+  it('sends a request larger than the token budget alone once the window is empty', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 0, tokensPerMinute: 100 });
+    await limiter.acquire(10);
+
+    const next = acquire(limiter, 500);
+    await flush();
+    expect(settled).toBeFalse();
+    jasmine.clock().tick(60000);
+    await next;
+    expect(settled).toBeTrue();
+  });
+
+  it('pauses every request after a 429 and lowers the request rate', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 10, tokensPerMinute: 0 });
+    limiter.backOff(5000);
+    expect(console.warn).toHaveBeenCalledWith(jasmine.stringMatching(/lowering the limit to 8 requests per minute/));
+
+    const next = acquire(limiter, 10);
+    await flush();
+    expect(settled).toBeFalse();
+    jasmine.clock().tick(5000);
+    await next;
+    expect(settled).toBeTrue();
+  });
+
+  it('derives a limit from the recent requests when it had none', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 0, tokensPerMinute: 0 });
+    for (let i = 0; i < 30; i++) {
+      await limiter.acquire(10);
+    }
+    limiter.backOff(0);
+    expect(console.warn).toHaveBeenCalledWith(jasmine.stringMatching(/lowering the limit to 24 requests per minute/));
+  });
+
+  it('keeps an unlimited rate above a floor based on the default limit', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 0, tokensPerMinute: 0 });
+    await limiter.acquire(10);
+    limiter.backOff(0);
+    expect(console.warn).toHaveBeenCalledWith(jasmine.stringMatching(/lowering the limit to 15 requests per minute/));
+  });
+
+  it('lowers the rate only once for the 429s of one minute', () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 100, tokensPerMinute: 0 });
+    limiter.backOff(1000);
+    jasmine.clock().tick(2000);
+    limiter.backOff(2000);
+    jasmine.clock().tick(4000);
+    limiter.backOff(4000);
+    expect(console.warn).toHaveBeenCalledTimes(1);
+
+    jasmine.clock().tick(60000);
+    limiter.backOff(1000);
+    expect(console.warn).toHaveBeenCalledTimes(2);
+    expect(console.warn).toHaveBeenCalledWith(jasmine.stringMatching(/lowering the limit to 64 requests per minute/));
+  });
+
+  it('never lowers the rate below a quarter of the configured limit', () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 20, tokensPerMinute: 0 });
+    for (let i = 0; i < 10; i++) {
+      limiter.backOff(0);
+      jasmine.clock().tick(60000);
+    }
+    expect(console.warn).toHaveBeenCalledWith(jasmine.stringMatching(/lowering the limit to 5 requests per minute/));
+    expect(console.warn).not.toHaveBeenCalledWith(jasmine.stringMatching(/lowering the limit to 4 requests per minute/));
+  });
+
+  it('gives back part of the rate for each minute without a 429', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 10, tokensPerMinute: 0 });
+    limiter.backOff(0);
+    jasmine.clock().tick(60000);
+    await limiter.acquire(10);
+
+    // 8 per minute, then 9 after a quiet minute; a new 429 lowers 9 to 7
+    limiter.backOff(0);
+    expect((console.warn as jasmine.Spy).calls.mostRecent().args[0]).toMatch(/lowering the limit to 7 requests per minute/);
+  });
+
+  it('restores the configured rate once it is reached', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 10, tokensPerMinute: 0 });
+    limiter.backOff(0);
+    jasmine.clock().tick(120000);
+    await limiter.acquire(10);
+
+    limiter.backOff(0);
+    expect((console.warn as jasmine.Spy).calls.mostRecent().args[0]).toMatch(/lowering the limit to 8 requests per minute/);
+  });
+});
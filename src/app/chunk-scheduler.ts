@@ -0,0 +1,158 @@
+import { CoreLogger } from './translation-core';
+
+export interface SchedulerSettings {
+  /** Chunks sent to the provider at the same time. */
+  concurrency: number;
+  /** Rows per chunk at the start of each sheet. */
+  initialChunkSize: number;
+  maxChunkSize: number;
+  /** 0 for no limit. */
+  requestsPerMinute: number;
+  /** 0 for no limit. */
+  tokensPerMinute: number;
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+  concurrency: 3,
+  initialChunkSize: 5,
+  maxChunkSize: 20,
+  requestsPerMinute: 60,
+  tokensPerMinute: 0
+};
+
+const WINDOW_MS = 60000;
+/** Share of the request rate kept after a 429. */
+const BACK_OFF_FACTOR = 0.8;
+/** A 429 never lowers the rate below this share of the configured limit (or of the default one when unlimited). */
+const MIN_RATE_FACTOR = 0.25;
+/** Share of the rate to recover to that is given back after each minute without a 429. */
+const RECOVERY_STEP = 0.1;
+
+/** Rough token count for budgeting; about four characters per token. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Rows per request for `rowCount` rows, assuming every response is valid: the
+ * first `concurrency` chunks go out at the initial size, and each later one is
+ * a row larger, as a response comes back before every further chunk is taken.
+ */
+export function planChunkSizes(rowCount: number, settings: SchedulerSettings): number[] {
+  const concurrency = Math.max(1, settings.concurrency);
+  const maxChunkSize = Math.max(1, settings.maxChunkSize);
+  let chunkSize = Math.min(maxChunkSize, Math.max(1, settings.initialChunkSize));
+  const sizes: number[] = [];
+  for (let remaining = rowCount; remaining > 0; remaining -= sizes[sizes.length - 1]) {
+    sizes.push(Math.min(chunkSize, remaining));
+    if (sizes.length >= concurrency) {
+      chunkSize = Math.min(maxChunkSize, chunkSize + 1);
+    }
+  }
+  return sizes;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Sliding one-minute window over requests and tokens. Callers `acquire` before
+ * each request; a 429 from the provider pauses everyone and lowers the request
+ * rate, at most once a minute and never below a floor. Each minute without a
+ * 429 raises it again, until the configured limit is back.
+ */
+export class RateLimiter {
+  private requests: { time: number; tokens: number }[] = [];
+  private pausedUntil = 0;
+  private readonly configuredRequestsPerMinute: number;
+  private readonly minRequestsPerMinute: number;
+  private requestsPerMinute: number;
+  private tokensPerMinute: number;
+  /** Rate to climb back to after a back-off; 0 while the configured limit applies. */
+  private recoveryTarget = 0;
+  private lastBackOffAt = 0;
+  /** Start of the current minute without a 429, while recovering. */
+  private quietSince = 0;
+
+  constructor(
+    settings: Pick<SchedulerSettings, 'requestsPerMinute' | 'tokensPerMinute'>,
+    private readonly logger: CoreLogger = console
+  ) {
+    this.configuredRequestsPerMinute = Math.max(0, settings.requestsPerMinute);
+    this.requestsPerMinute = this.configuredRequestsPerMinute;
+    this.tokensPerMinute = Math.max(0, settings.tokensPerMinute);
+    const baseRate = this.configuredRequestsPerMinute || DEFAULT_SCHEDULER_SETTINGS.requestsPerMinute;
+    this.minRequestsPerMinute = Math.max(1, Math.floor(baseRate * MIN_RATE_FACTOR));
+  }
+
+  async acquire(tokens: number): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.recover(now);
+      this.requests = this.requests.filter(request => now - request.time < WINDOW_MS);
+      const wait = this.getWaitTime(now, tokens);
+      if (wait <= 0) {
+        this.requests.push({ time: now, tokens });
+        return;
+      }
+      await sleep(wait);
+    }
+  }
+
+  /**
+   * Called when the provider answers 429: pause all requests and send fewer
+   * from now on. Retries of the same throttled requests keep arriving for a
+   * while, so only the first 429 in a minute lowers the rate.
+   */
+  backOff(retryAfterMs: number): void {
+    const now = Date.now();
+    this.pausedUntil = Math.max(this.pausedUntil, now + retryAfterMs);
+    this.quietSince = now;
+    if (this.lastBackOffAt && now - this.lastBackOffAt < WINDOW_MS) {
+      return;
+    }
+    this.lastBackOffAt = now;
+
+    const currentRate = this.requestsPerMinute || this.requests.length;
+    if (!this.recoveryTarget) {
+      this.recoveryTarget = this.configuredRequestsPerMinute || Math.max(currentRate, this.minRequestsPerMinute);
+    }
+    this.requestsPerMinute = Math.max(this.minRequestsPerMinute, Math.floor(currentRate * BACK_OFF_FACTOR));
+    this.logger.warn(`Rate limited; pausing ${retryAfterMs / 1000}s and lowering the limit to ${this.requestsPerMinute} requests per minute.`);
+  }
+
+  /** Gives back part of the rate for every full minute without a 429; restores the configured limit once it is reached. */
+  private recover(now: number): void {
+    while (this.recoveryTarget && now - this.quietSince >= WINDOW_MS) {
+      this.quietSince += WINDOW_MS;
+      this.requestsPerMinute += Math.max(1, Math.ceil(this.recoveryTarget * RECOVERY_STEP));
+      if (this.requestsPerMinute >= this.recoveryTarget) {
+        this.requestsPerMinute = this.configuredRequestsPerMinute;
+        this.recoveryTarget = 0;
+      }
+    }
+  }
+
+  private getWaitTime(now: number, tokens: number): number {
+    if (this.pausedUntil > now) {
+      return this.pausedUntil - now;
+    }
+    if (this.requestsPerMinute > 0 && this.requests.length >= this.requestsPerMinute) {
+      return this.requests[this.requests.length - this.requestsPerMinute].time + WINDOW_MS - now;
+    }
+    if (this.tokensPerMinute > 0 && this.requests.length > 0) {
+      // Wait until enough earlier requests leave the window; a request larger
+      // than the whole budget goes out alone once the window is empty
+      let used = this.requests.reduce((sum, request) => sum + request.tokens, 0);
+      for (const request of this.requests) {
+        if (used + tokens <= this.tokensPerMinute) break;
+        used -= request.tokens;
+        if (used + tokens <= this.tokensPerMinute || used === 0) {
+          return request.time + WINDOW_MS - now;
+        }
+      }
+    }
+    return 0;
+  }
+}
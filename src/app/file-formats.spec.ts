@@ -0,0 +1,51 @@
+import { flattenRecord, parseCsv, unflattenRecord } from './file-formats';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('a,b,c\n1,2,3')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('accepts CRLF and CR line endings', () => {
+    expect(parseCsv('a,b\r\n1,2\r3,4\r\n')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+  });
+
+  it('keeps commas, escaped quotes and newlines inside quoted fields', () => {
+    expect(parseCsv('"a, b","say ""hi""","line 1\nline 2"')).toEqual([['a, b', 'say "hi"', 'line 1\nline 2']]);
+  });
+
+  it('keeps empty fields, including a trailing one', () => {
+    expect(parseCsv('a,,c,\n,b,,')).toEqual([['a', '', 'c', ''], ['', 'b', '', '']]);
+  });
+
+  it('drops blank lines', () => {
+    expect(parseCsv('a,b\n\n , \n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('keeps a quote inside an unquoted field as text', () => {
+    expect(parseCsv('5" screen,2\nsay "hi" now,3')).toEqual([['5" screen', '2'], ['say "hi" now', '3']]);
+  });
+
+  it('splits on another delimiter', () => {
+    expect(parseCsv('a\tb,c\n"1\t2"\t3', '\t')).toEqual([['a', 'b,c'], ['1\t2', '3']]);
+  });
+
+  it('returns no rows for empty text', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+});
+
+describe('unflattenRecord', () => {
+  it('reads back what flattenRecord writes', () => {
+    const record = { q: 'Hello', options: ['Yes', 'No'], meta: { level: 2, done: false } };
+    expect(unflattenRecord(flattenRecord(record))).toEqual(record);
+  });
+
+  it('keeps null values, including inside arrays and objects', () => {
+    const record = { note: null, options: ['Yes', null], meta: { hint: null } };
+    expect(unflattenRecord(flattenRecord(record))).toEqual(record);
+  });
+
+  it('treats keys with an empty segment as plain keys', () => {
+    expect(unflattenRecord({ 'No.': 1, 'a..b': 'x' })).toEqual({ 'No.': 1, 'a..b': 'x' });
+  });
+});
@@ -0,0 +1,217 @@
+import { TranslationData } from './translation-core';
+
+/** Formats a translation can be written in; any supported input format can be written as any of them. */
+export type OutputFormat = 'xlsx' | 'ods' | 'csv' | 'tsv' | 'json';
+
+export type InputFormat = OutputFormat | 'xls';
+
+export const OUTPUT_FORMAT_LABELS: { [format in OutputFormat]: string } = {
+  'xlsx': 'Excel (.xlsx)',
+  'ods': 'OpenDocument (.ods)',
+  'csv': 'CSV, UTF-8 with BOM (.csv)',
+  'tsv': 'Tab-separated (.tsv)',
+  'json': 'JSON (.json)'
+};
+
+export const OUTPUT_MIME_TYPES: { [format in OutputFormat]: string } = {
+  'xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'ods': 'application/vnd.oasis.opendocument.spreadsheet',
+  'csv': 'text/csv;charset=utf-8',
+  'tsv': 'text/tab-separated-values;charset=utf-8',
+  'json': 'application/json;charset=utf-8'
+};
+
+/** Extensions the file input accepts. */
+export const ACCEPTED_EXTENSIONS = '.xlsx, .xls, .ods, .csv, .tsv, .txt, .json';
+
+/** Matches a supported extension at the end of a file name. */
+export const INPUT_EXTENSION_PATTERN = /\.(xlsx|xls|ods|csv|tsv|txt|json)$/i;
+
+export function detectInputFormat(fileName: string): InputFormat {
+  const extension = (fileName.match(INPUT_EXTENSION_PATTERN)?.[1] || 'xlsx').toLowerCase();
+  return extension === 'txt' ? 'tsv' : extension as InputFormat;
+}
+
+/**
+ * Decodes text from its byte-order mark, or as UTF-8 when the bytes are valid
+ * UTF-8, falling back to Windows-1252 as saved by older Excel versions.
+ */
+export function decodeText(data: Uint8Array): string {
+  if (data[0] === 0xEF && data[1] === 0xBB && data[2] === 0xBF) {
+    return new TextDecoder('utf-8').decode(data.subarray(3));
+  }
+  if (data[0] === 0xFF && data[1] === 0xFE) {
+    return new TextDecoder('utf-16le').decode(data.subarray(2));
+  }
+  if (data[0] === 0xFE && data[1] === 0xFF) {
+    return new TextDecoder('utf-16be').decode(data.subarray(2));
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return new TextDecoder('windows-1252').decode(data);
+  }
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+/** Counts a delimiter outside quoted fields on each of the first lines. */
+function countPerLine(text: string, delimiter: string, maxLines: number): number[] {
+  const counts: number[] = [];
+  let count = 0;
+  let inQuotes = false;
+  for (let i = 0; i < text.length && counts.length < maxLines; i++) {
+    const char = text[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === delimiter) {
+      count++;
+    } else if (!inQuotes && char === '\n') {
+      counts.push(count);
+      count = 0;
+    }
+  }
+  if (counts.length < maxLines && count > 0) {
+    counts.push(count);
+  }
+  return counts;
+}
+
+/**
+ * Picks the delimiter that splits the first lines into the same, largest number
+ * of fields. Falls back to a comma, e.g. for a single-column file.
+ */
+export function detectDelimiter(text: string): string {
+  let best = ',';
+  let bestScore = 0;
+  CANDIDATE_DELIMITERS.forEach(delimiter => {
+    const counts = countPerLine(text, delimiter, 10);
+    if (counts.length === 0 || counts[0] === 0) return;
+    const consistent = counts.filter(count => count === counts[0]).length / counts.length;
+    const score = consistent * counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+/**
+ * Splits CSV text into rows of fields, honouring quoted fields with embedded
+ * delimiters, quotes and newlines. A quote opens a quoted field only at the
+ * start of the field; elsewhere it is kept as text, e.g. `5" screen`.
+ */
+export function parseCsv(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let fieldStart = 0;
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && i === fieldStart) {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+      fieldStart = i + 1;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      fieldStart = i + 1;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+/** A field holding a plain number becomes a number, as Excel does when opening a CSV; "007" stays text. */
+function toCellValue(field: string): string | number {
+  return /^-?(0|[1-9]\d*)(\.\d+)?$/.test(field.trim()) ? Number(field) : field;
+}
+
+/** Parses delimited text into rows of cells; the delimiter is detected when not given. */
+export function parseDelimitedText(text: string, delimiter: string = detectDelimiter(text)): (string | number)[][] {
+  return parseCsv(text.replace(/^\uFEFF/, ''), delimiter).map(row => row.map(toCellValue));
+}
+
+/** Flattens nested objects and arrays into dotted keys, e.g. `options.0`, so every text value gets its own column. */
+export function flattenRecord(value: unknown, prefix: string = '', result: TranslationData = {}): TranslationData {
+  if (value !== null && typeof value === 'object') {
+    Object.entries(value as { [key: string]: unknown }).forEach(([key, child]) => {
+      flattenRecord(child, prefix ? `${prefix}.${key}` : key, result);
+    });
+  } else if (prefix) {
+    result[prefix] = value as TranslationData[string];
+  }
+  return result;
+}
+
+/** An object or array being rebuilt; arrays are filled through their numeric keys. */
+type JsonContainer = { [key: string]: unknown };
+
+/** Reverses `flattenRecord`; numeric path segments become array positions. Null values are kept. */
+export function unflattenRecord(row: TranslationData): JsonContainer {
+  const result: JsonContainer = {};
+  Object.entries(row).forEach(([path, value]) => {
+    // Headers such as "No." are not paths
+    const keys = path.split('.').some(key => !key) ? [path] : path.split('.');
+    let target = result;
+    keys.forEach((key, index) => {
+      if (index === keys.length - 1) {
+        target[key] = value;
+        return;
+      }
+      const child = target[key];
+      if (child === null || typeof child !== 'object') {
+        target[key] = /^\d+$/.test(keys[index + 1]) ? [] : {};
+      }
+      target = target[key] as JsonContainer;
+    });
+  });
+  return result;
+}
+
+/** A JSON dump read as sheets; `isArray` tells whether the file was a single array of records. */
+export interface JsonSheets {
+  isArray: boolean;
+  sheets: { name: string; rows: TranslationData[] }[];
+}
+
+/**
+ * Reads a JSON dump as sheets: an array of records is one sheet, an object
+ * whose values are arrays of records is one sheet per key.
+ */
+export function parseJsonSheets(text: string, defaultName: string): JsonSheets {
+  const parsed = JSON.parse(text.replace(/^\uFEFF/, ''));
+  const toRows = (records: unknown[]) => records.map(record => flattenRecord(record));
+  if (Array.isArray(parsed)) {
+    return { isArray: true, sheets: [{ name: defaultName, rows: toRows(parsed) }] };
+  }
+  if (parsed && typeof parsed === 'object') {
+    const sheets = Object.entries(parsed).filter(([, records]) => Array.isArray(records));
+    if (sheets.length > 0) {
+      return { isArray: false, sheets: sheets.map(([name, records]) => ({ name, rows: toRows(records as unknown[]) })) };
+    }
+  }
+  throw new Error('The JSON file must hold an array of records, or an object with an array of records per sheet.');
+}
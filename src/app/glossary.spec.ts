@@ -0,0 +1,25 @@
+import { GlossaryEntry, glossaryFromCsv, glossaryToCsv } from './glossary';
+
+describe('glossary CSV', () => {
+  const entries: GlossaryEntry[] = [
+    { term: 'photosynthesis', language: 'Hindi', translation: 'प्रकाश संश्लेषण', doNotTranslate: false },
+    { term: 'DNA, RNA', language: '', translation: '', doNotTranslate: true },
+    { term: 'the "cell"', language: 'Marathi', translation: 'पेशी', doNotTranslate: false }
+  ];
+
+  it('reads back what it writes', () => {
+    expect(glossaryFromCsv(glossaryToCsv(entries))).toEqual(entries);
+  });
+
+  it('finds columns by header name and ignores a byte order mark and rows without a term', () => {
+    const csv = '\uFEFFTranslation,Term,Do_Not_Translate\nकोशिका,cell,no\n,,\nx,,yes\nOK,OK,Y';
+    expect(glossaryFromCsv(csv)).toEqual([
+      { term: 'cell', language: '', translation: 'कोशिका', doNotTranslate: false },
+      { term: 'OK', language: '', translation: 'OK', doNotTranslate: true }
+    ]);
+  });
+
+  it('requires a term column', () => {
+    expect(() => glossaryFromCsv('word,translation\ncell,कोशिका')).toThrowError(/header row/);
+  });
+});
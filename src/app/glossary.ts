@@ -0,0 +1,133 @@
+import { TranslationData } from './translation-core';
+import { parseCsv } from './file-formats';
+
+export interface GlossaryEntry {
+  term: string;
+  /** Target language the entry applies to; empty for every language. */
+  language: string;
+  /** Required translation; ignored when `doNotTranslate` is set. */
+  translation: string;
+  doNotTranslate: boolean;
+}
+
+export interface GlossaryViolation {
+  rowIndex: number;
+  /** Original (untranslated) column header. */
+  column: string;
+  term: string;
+  expected: string;
+  actual: string;
+}
+
+const CSV_HEADER = ['term', 'language', 'translation', 'do_not_translate'];
+
+export function getGlossaryForLanguage(entries: GlossaryEntry[], language: string): GlossaryEntry[] {
+  return entries.filter(entry => entry.term.trim() && (!entry.language || entry.language === language));
+}
+
+function termPattern(term: string): RegExp {
+  const escaped = term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  // Whole-word match for Latin text, so "cat" does not match "category"
+  return new RegExp(`(?<![A-Za-z0-9])${escaped}(?![A-Za-z0-9])`, 'i');
+}
+
+function expectedText(entry: GlossaryEntry): string {
+  return entry.doNotTranslate ? entry.term.trim() : entry.translation.trim();
+}
+
+/** Entries whose term occurs in any string value of the given rows. */
+export function findRelevantEntries(entries: GlossaryEntry[], rows: TranslationData[]): GlossaryEntry[] {
+  const texts = rows.flatMap(row => Object.values(row).filter((value): value is string => typeof value === 'string'));
+  return entries.filter(entry => {
+    const pattern = termPattern(entry.term);
+    return texts.some(text => pattern.test(text));
+  });
+}
+
+export function buildGlossaryPrompt(entries: GlossaryEntry[]): string {
+  if (entries.length === 0) {
+    return '';
+  }
+  const lines = entries.map(entry => entry.doNotTranslate
+    ? `- "${entry.term.trim()}": keep in English, do not translate`
+    : `- "${entry.term.trim()}": translate as "${entry.translation.trim()}"`);
+  return `\n\nGlossary: the following terminology is mandatory wherever the term appears.\n${lines.join('\n')}`;
+}
+
+/**
+ * Lists translated cells whose source contains a glossary term but whose
+ * translation does not contain the required rendering. `columns` are the
+ * original headers to check; `translatedHeaders` gives their keys in the
+ * translated rows. Rows in `skippedRows` are ignored.
+ */
+export function findGlossaryViolations(
+  sourceRows: TranslationData[],
+  translatedRows: TranslationData[],
+  columns: string[],
+  translatedHeaders: { [column: string]: string },
+  entries: GlossaryEntry[],
+  skippedRows: number[] = []
+): GlossaryViolation[] {
+  const violations: GlossaryViolation[] = [];
+  const skipped = new Set(skippedRows);
+  const patterns = entries.map(entry => ({ entry, pattern: termPattern(entry.term) }));
+
+  sourceRows.forEach((sourceRow, rowIndex) => {
+    if (skipped.has(rowIndex)) return;
+
+    columns.forEach(column => {
+      const source = sourceRow[column];
+      if (typeof source !== 'string') return;
+
+      const actual = String(translatedRows[rowIndex]?.[translatedHeaders[column]] ?? '');
+      patterns.forEach(({ entry, pattern }) => {
+        const expected = expectedText(entry);
+        if (expected && pattern.test(source) && !actual.toLowerCase().includes(expected.toLowerCase())) {
+          violations.push({ rowIndex, column, term: entry.term.trim(), expected, actual });
+        }
+      });
+    });
+  });
+
+  return violations;
+}
+
+/** Quotes a CSV field when it holds a comma, quote or line break. */
+export function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function glossaryToCsv(entries: GlossaryEntry[]): string {
+  const lines = entries.map(entry => [
+    entry.term,
+    entry.language,
+    entry.translation,
+    entry.doNotTranslate ? 'yes' : 'no'
+  ].map(escapeCsvField).join(','));
+  return [CSV_HEADER.join(','), ...lines].join('\r\n');
+}
+
+export function glossaryFromCsv(text: string): GlossaryEntry[] {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const header = rows[0].map(value => value.trim().toLowerCase());
+  const column = (name: string) => header.indexOf(name);
+  if (column('term') === -1) {
+    throw new Error(`Glossary CSV must have a header row with the columns: ${CSV_HEADER.join(', ')}.`);
+  }
+
+  return rows.slice(1)
+    .map(fields => {
+      const value = (name: string) => (fields[column(name)] ?? '').trim();
+      return {
+        term: value('term'),
+        language: value('language'),
+        translation: value('translation'),
+        doNotTranslate: /^(yes|true|1|y)$/i.test(value('do_not_translate'))
+      };
+    })
+    .filter(entry => entry.term !== '');
+}
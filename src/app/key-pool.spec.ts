@@ -0,0 +1,128 @@
+import { KeyPool, KeyStats, classifyKeyFailure } from './key-pool';
+
+describe('classifyKeyFailure', () => {
+  it('treats 429 as a quota failure', () => {
+    expect(classifyKeyFailure(429, 'Resource has been exhausted')).toBe('quota');
+  });
+
+  it('treats 401, 403 and an invalid key as auth failures', () => {
+    expect(classifyKeyFailure(401, 'Unauthorized')).toBe('auth');
+    expect(classifyKeyFailure(403, 'Forbidden')).toBe('auth');
+    expect(classifyKeyFailure(400, 'API key not valid. Please pass a valid API key.')).toBe('auth');
+  });
+
+  it('leaves failures of the request itself alone', () => {
+    expect(classifyKeyFailure(400, 'Invalid JSON payload')).toBeUndefined();
+    expect(classifyKeyFailure(500, 'Internal error')).toBeUndefined();
+  });
+});
+
+describe('KeyPool', () => {
+  let stats: { [key: string]: KeyStats | undefined };
+
+  beforeEach(() => {
+    stats = {};
+    spyOn(console, 'warn');
+  });
+
+  it('refuses an empty pool', () => {
+    expect(() => new KeyPool([], stats)).toThrowError(/empty/);
+  });
+
+  it('uses the first key for every request in failover mode', async () => {
+    const pool = new KeyPool(['key-a', 'key-b'], stats);
+
+    expect(await pool.acquire()).toBe('key-a');
+    expect(await pool.acquire()).toBe('key-a');
+    expect(stats['key-a']?.requests).toBe(2);
+    expect(stats['key-b']?.requests).toBe(0);
+  });
+
+  it('takes turns between keys in spread mode', async () => {
+    const pool = new KeyPool(['key-a', 'key-b', 'key-c'], stats, 'spread');
+
+    const keys = [await pool.acquire(), await pool.acquire(), await pool.acquire(), await pool.acquire()];
+    expect(keys).toEqual(['key-a', 'key-b', 'key-c', 'key-a']);
+  });
+
+  it('fails over to the next key while one cools down after a quota error', async () => {
+    const pool = new KeyPool(['key-a', 'key-b'], stats);
+
+    pool.reportFailure('key-a', 'Quota exceeded', 'quota');
+    expect(await pool.acquire()).toBe('key-b');
+    expect(stats['key-a']?.errors).toBe(1);
+    expect(stats['key-a']?.cooldownUntil).toBeGreaterThan(Date.now());
+  });
+
+  it('lengthens the cooldown on each consecutive quota error and honors Retry-After', () => {
+    const pool = new KeyPool(['key-a'], stats);
+
+    const before = Date.now();
+    pool.reportFailure('key-a', 'Quota exceeded', 'quota');
+    const first = (stats['key-a']?.cooldownUntil ?? 0) - before;
+    pool.reportFailure('key-a', 'Quota exceeded', 'quota');
+    const second = (stats['key-a']?.cooldownUntil ?? 0) - before;
+    pool.reportFailure('key-a', 'Quota exceeded', 'quota', 10 * 60000);
+    const third = (stats['key-a']?.cooldownUntil ?? 0) - before;
+
+    expect(first).toBeGreaterThanOrEqual(60000);
+    expect(second).toBeGreaterThanOrEqual(120000);
+    expect(third).toBeGreaterThanOrEqual(10 * 60000);
+  });
+
+  it('resets the quota strikes after a success', () => {
+    const pool = new KeyPool(['key-a'], stats);
+
+    pool.reportFailure('key-a', 'Quota exceeded', 'quota');
+    pool.reportSuccess('key-a');
+    expect(stats['key-a']?.quotaStrikes).toBe(0);
+  });
+
+  it('waits for the earliest cooldown when every key is cooling down', async () => {
+    const pool = new KeyPool(['key-a', 'key-b'], stats);
+    stats['key-a']!.cooldownUntil = Date.now() + 200;
+    stats['key-b']!.cooldownUntil = Date.now() + 30;
+
+    expect(await pool.acquire()).toBe('key-b');
+    expect(console.warn).toHaveBeenCalledWith(jasmine.stringMatching(/cooling down/));
+  });
+
+  it('stops using a rejected key', async () => {
+    const pool = new KeyPool(['key-a', 'key-b'], stats);
+
+    pool.reportFailure('key-a', 'API key not valid', 'auth');
+    expect(await pool.acquire()).toBe('key-b');
+  });
+
+  it('retires a key that keeps hitting its quota', async () => {
+    const pool = new KeyPool(['key-a', 'key-b'], stats);
+
+    for (let i = 0; i < 5; i++) {
+      pool.reportFailure('key-a', 'Quota exceeded', 'quota');
+    }
+    stats['key-a']!.cooldownUntil = 0;
+    expect(await pool.acquire()).toBe('key-b');
+  });
+
+  it('throws, naming every key and its last error, once no key is left', async () => {
+    const pool = new KeyPool(['first-key-1111', 'second-key-2222'], stats);
+
+    pool.reportFailure('first-key-1111', 'API key not valid', 'auth');
+    for (let i = 0; i < 5; i++) {
+      pool.reportFailure('second-key-2222', 'Quota exceeded', 'quota');
+    }
+
+    await expectAsync(pool.acquire()).toBeRejectedWithError(
+      'No usable API key is left in the pool. API key 1 (…1111) was rejected: API key not valid; ' +
+      'API key 2 (…2222) is out of quota: Quota exceeded'
+    );
+  });
+
+  it('ignores failures that are not about the key', async () => {
+    const pool = new KeyPool(['key-a', 'key-b'], stats);
+
+    pool.reportFailure('key-a', 'Invalid JSON payload');
+    expect(await pool.acquire()).toBe('key-a');
+    expect(stats['key-a']?.errors).toBe(1);
+  });
+});
@@ -0,0 +1,135 @@
+import { sleep } from './chunk-scheduler';
+import { CoreLogger } from './translation-core';
+
+/** How a pool spreads requests over its keys. */
+export type KeyPoolMode = 'failover' | 'spread';
+
+export interface KeyPoolSettings {
+  enabled: boolean;
+  mode: KeyPoolMode;
+}
+
+export const DEFAULT_KEY_POOL_SETTINGS: KeyPoolSettings = {
+  enabled: false,
+  mode: 'failover'
+};
+
+/** Why a key was taken out of rotation. */
+export type KeyFailureKind = 'quota' | 'auth';
+
+/** Per-key counters, shared by every pool built from the same keys so they add up across runs. */
+export interface KeyStats {
+  requests: number;
+  errors: number;
+  lastError: string;
+  /** Time until which the key is skipped after a quota error; 0 when it is available. */
+  cooldownUntil: number;
+  /** Consecutive quota errors, which lengthen the cooldown. */
+  quotaStrikes: number;
+}
+
+const BASE_COOLDOWN_MS = 60000;
+const MAX_COOLDOWN_MS = 15 * 60000;
+/** Consecutive quota errors after which a key counts as out of quota for the rest of the run (about half an hour of cooldowns). */
+const MAX_QUOTA_STRIKES = 5;
+
+/**
+ * Failures that another key may not have: 429 (rate limit or exhausted quota),
+ * 401/403, and the 400 Gemini answers for an invalid key. Anything else is
+ * about the request itself and would fail with every key.
+ */
+export function classifyKeyFailure(status: number, message: string): KeyFailureKind | undefined {
+  if (status === 429) return 'quota';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 400 && /api key/i.test(message)) return 'auth';
+  return undefined;
+}
+
+/**
+ * Hands out API keys for requests. In 'failover' mode every request uses the
+ * first available key; in 'spread' mode keys take turns, so parallel chunks go
+ * to different keys. A key that hits its quota cools down, with a longer
+ * cooldown on each consecutive quota error; a rejected key, or one that keeps
+ * hitting its quota, is not used again by this pool. Once no key is left,
+ * `acquire` throws instead of waiting.
+ */
+export class KeyPool {
+  /** Keys taken out of rotation for good, with the reason. */
+  private retired = new Map<string, string>();
+  private nextIndex = 0;
+
+  constructor(
+    private keys: string[],
+    private stats: { [key: string]: KeyStats | undefined },
+    private mode: KeyPoolMode = 'failover',
+    private logger: CoreLogger = console
+  ) {
+    if (keys.length === 0) {
+      throw new Error('The API key pool is empty.');
+    }
+    keys.forEach(key => this.getStats(key));
+  }
+
+  /** The key for the next request; waits when every usable key is cooling down. */
+  async acquire(): Promise<string> {
+    for (;;) {
+      const usable = this.keys.filter(key => !this.retired.has(key));
+      if (usable.length === 0) {
+        const reasons = this.keys.map(key => `${this.describeKey(key)} ${this.retired.get(key)}: ${this.getStats(key).lastError}`);
+        throw new Error(`No usable API key is left in the pool. ${reasons.join('; ')}`);
+      }
+      const now = Date.now();
+      const start = this.mode === 'spread' ? this.nextIndex : 0;
+      for (let offset = 0; offset < usable.length; offset++) {
+        const key = usable[(start + offset) % usable.length];
+        if (this.getStats(key).cooldownUntil <= now) {
+          this.nextIndex = (start + offset + 1) % usable.length;
+          this.getStats(key).requests++;
+          return key;
+        }
+      }
+      const wait = Math.min(...usable.map(key => this.getStats(key).cooldownUntil)) - now;
+      this.logger.warn(`Every API key is cooling down; waiting ${Math.ceil(wait / 1000)}s.`);
+      await sleep(wait);
+    }
+  }
+
+  reportSuccess(key: string): void {
+    this.getStats(key).quotaStrikes = 0;
+  }
+
+  /** Records an error; quota and auth failures also take the key out of rotation. */
+  reportFailure(key: string, message: string, kind?: KeyFailureKind, retryAfterMs: number = 0): void {
+    const stats = this.getStats(key);
+    stats.errors++;
+    stats.lastError = message;
+    if (kind === 'quota') {
+      stats.quotaStrikes++;
+      if (stats.quotaStrikes >= MAX_QUOTA_STRIKES) {
+        this.retired.set(key, 'is out of quota');
+        this.logger.warn(`${this.describeKey(key)} hit its quota ${stats.quotaStrikes} times in a row; it is not used again in this run.`);
+        return;
+      }
+      const cooldown = Math.min(MAX_COOLDOWN_MS, Math.max(retryAfterMs, BASE_COOLDOWN_MS * 2 ** (stats.quotaStrikes - 1)));
+      stats.cooldownUntil = Date.now() + cooldown;
+      this.logger.warn(`${this.describeKey(key)} hit its quota; cooling down for ${cooldown / 1000}s.`);
+    } else if (kind === 'auth') {
+      this.retired.set(key, 'was rejected');
+      this.logger.warn(`${this.describeKey(key)} was rejected; it is not used again in this run.`);
+    }
+  }
+
+  /** Position and last four characters, enough to find the key without revealing it. */
+  private describeKey(key: string): string {
+    return `API key ${this.keys.indexOf(key) + 1} (…${key.slice(-4)})`;
+  }
+
+  private getStats(key: string): KeyStats {
+    let stats = this.stats[key];
+    if (!stats) {
+      stats = { requests: 0, errors: 0, lastError: '', cooldownUntil: 0, quotaStrikes: 0 };
+      this.stats[key] = stats;
+    }
+    return stats;
+  }
+}
@@ -0,0 +1,252 @@
+import { Injectable } from '@angular/core';
+import { TranslationService } from './translation.service';
+import { DEFAULT_GRADE_LEVEL, renderPrompt } from './translation-core';
+
+export interface PromptVersion {
+  version: number;
+  /** Template text, with `{{variable}}` placeholders. */
+  text: string;
+  savedAt: number;
+  note: string;
+}
+
+export interface PromptTemplate {
+  language: string;
+  /** Language code used in file names and exports, e.g. "TA". */
+  code: string;
+  gradeLevel: string;
+  /** Oldest first; a revert adds a new version rather than removing later ones. */
+  versions: PromptVersion[];
+  currentVersion: number;
+}
+
+interface PromptLibraryFile {
+  format: 'prompt-library';
+  version: 1;
+  templates: PromptTemplate[];
+}
+
+/** A version read from storage or a file; null unless it has a version number and text. */
+function parseVersion(value: unknown): PromptVersion | null {
+  const version = value as Partial<PromptVersion> | null;
+  if (!version || typeof version !== 'object' || !Number.isInteger(version.version) || typeof version.text !== 'string') {
+    return null;
+  }
+  return {
+    version: version.version as number,
+    text: version.text,
+    savedAt: typeof version.savedAt === 'number' ? version.savedAt : Date.now(),
+    note: typeof version.note === 'string' ? version.note : ''
+  };
+}
+
+/** A template read from storage or a file, keeping its valid versions; null without a language name or any valid version. */
+function parseTemplate(value: unknown): PromptTemplate | null {
+  const template = value as Partial<PromptTemplate> | null;
+  if (!template || typeof template !== 'object' || typeof template.language !== 'string' || !template.language.trim()
+    || !Array.isArray(template.versions)) {
+    return null;
+  }
+  const versions = template.versions.map(parseVersion).filter((version): version is PromptVersion => version !== null);
+  if (versions.length === 0) {
+    return null;
+  }
+  return {
+    language: template.language.trim(),
+    code: typeof template.code === 'string' ? template.code.trim().toUpperCase() : '',
+    gradeLevel: typeof template.gradeLevel === 'string' && template.gradeLevel.trim() ? template.gradeLevel : DEFAULT_GRADE_LEVEL,
+    versions,
+    currentVersion: versions.some(version => version.version === template.currentVersion)
+      ? template.currentVersion as number
+      : versions[versions.length - 1].version
+  };
+}
+
+/**
+ * Prompt templates per target language, kept in localStorage with their full
+ * version history. Built-in languages are seeded from the TranslationService
+ * prompts; languages added here are registered with it so codes resolve.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PromptLibraryService {
+  private readonly STORAGE_KEY = 'promptLibrary';
+  private templates: PromptTemplate[] = [];
+  private builtInLanguages: string[] = [];
+
+  constructor(private translationService: TranslationService) {
+    this.load();
+  }
+
+  getLanguages(): string[] {
+    return this.templates.map(template => template.language);
+  }
+
+  getTemplate(language: string): PromptTemplate | undefined {
+    return this.templates.find(template => template.language === language);
+  }
+
+  getCurrentVersion(language: string): PromptVersion | undefined {
+    const template = this.getTemplate(language);
+    return template?.versions.find(version => version.version === template.currentVersion);
+  }
+
+  /** The prompt as sent to the model: `text` (by default the current version) with its variables filled in. */
+  render(language: string, text?: string): string {
+    const template = this.getTemplate(language);
+    const source = text ?? this.getCurrentVersion(language)?.text ?? this.translationService.getPromptTemplate(language);
+    return renderPrompt(source, { language, gradeLevel: template?.gradeLevel || DEFAULT_GRADE_LEVEL });
+  }
+
+  /** Adds a version unless `text` is already the current one; returns the current version either way. */
+  saveVersion(language: string, text: string, note: string = ''): PromptVersion {
+    const template = this.requireTemplate(language);
+    const current = this.getCurrentVersion(language);
+    if (current && current.text === text) {
+      return current;
+    }
+    const version: PromptVersion = {
+      version: Math.max(0, ...template.versions.map(existing => existing.version)) + 1,
+      text,
+      savedAt: Date.now(),
+      note
+    };
+    template.versions.push(version);
+    template.currentVersion = version.version;
+    this.save();
+    return version;
+  }
+
+  revert(language: string, versionNumber: number): PromptVersion {
+    const previous = this.requireTemplate(language).versions.find(version => version.version === versionNumber);
+    if (!previous) {
+      throw new Error(`Version ${versionNumber} of the ${language} prompt does not exist.`);
+    }
+    return this.saveVersion(language, previous.text, `Reverted to v${versionNumber}`);
+  }
+
+  setGradeLevel(language: string, gradeLevel: string): void {
+    this.requireTemplate(language).gradeLevel = gradeLevel.trim() || DEFAULT_GRADE_LEVEL;
+    this.save();
+  }
+
+  /** Adds a target language, starting from the general built-in prompt unless `text` is given. */
+  addLanguage(language: string, code: string, text?: string): PromptTemplate {
+    const name = language.trim();
+    if (!name || !code.trim()) {
+      throw new Error('Please enter a language name and code.');
+    }
+    if (this.getTemplate(name)) {
+      throw new Error(`${name} is already in the library.`);
+    }
+    const template = this.createTemplate(name, code.trim().toUpperCase(), text ?? this.translationService.getPromptTemplate(name), 'Created');
+    this.templates.push(template);
+    this.translationService.registerLanguage(template.language, template.code);
+    this.save();
+    return template;
+  }
+
+  isBuiltIn(language: string): boolean {
+    return this.builtInLanguages.includes(language);
+  }
+
+  removeLanguage(language: string): void {
+    if (this.isBuiltIn(language)) {
+      throw new Error(`${language} is built in and cannot be removed.`);
+    }
+    this.templates = this.templates.filter(template => template.language !== language);
+    this.save();
+  }
+
+  exportJson(): string {
+    const file: PromptLibraryFile = { format: 'prompt-library', version: 1, templates: this.templates };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * Merges an exported library. New languages are added whole; for known ones,
+   * versions whose text is not in the history yet are appended and the last
+   * one becomes current. Templates without a language or a valid version are
+   * skipped. Returns the number of versions added.
+   */
+  importJson(json: string): number {
+    let file: Partial<PromptLibraryFile> | null;
+    try {
+      file = JSON.parse(json);
+    } catch {
+      file = null;
+    }
+    if (!file || file.format !== 'prompt-library' || !Array.isArray(file.templates)) {
+      throw new Error('The file is not an exported prompt library.');
+    }
+
+    let added = 0;
+    file.templates.forEach(value => {
+      const imported = parseTemplate(value);
+      if (!imported) return;
+      const existing = this.getTemplate(imported.language);
+      if (!existing) {
+        imported.code = imported.code || this.translationService.getLanguageCode(imported.language);
+        this.templates.push(imported);
+        this.translationService.registerLanguage(imported.language, imported.code);
+        added += imported.versions.length;
+        return;
+      }
+      imported.versions
+        .filter(version => !existing.versions.some(known => known.text === version.text))
+        .forEach(version => {
+          const next = Math.max(0, ...existing.versions.map(known => known.version)) + 1;
+          existing.versions.push({ ...version, version: next, note: version.note || `Imported v${version.version}` });
+          existing.currentVersion = next;
+          added++;
+        });
+    });
+    this.save();
+    return added;
+  }
+
+  private requireTemplate(language: string): PromptTemplate {
+    const template = this.getTemplate(language);
+    if (!template) {
+      throw new Error(`There is no prompt template for ${language}.`);
+    }
+    return template;
+  }
+
+  private createTemplate(language: string, code: string, text: string, note: string): PromptTemplate {
+    return {
+      language,
+      code,
+      gradeLevel: DEFAULT_GRADE_LEVEL,
+      versions: [{ version: 1, text, savedAt: Date.now(), note }],
+      currentVersion: 1
+    };
+  }
+
+  /** Reads the saved library; a corrupt one is ignored, leaving the built-in templates. */
+  private load(): void {
+    let saved: unknown = [];
+    try {
+      saved = JSON.parse(localStorage.getItem(this.STORAGE_KEY) || '[]');
+    } catch (error) {
+      console.warn('Ignoring the saved prompt library, which could not be read:', error);
+    }
+    this.templates = (Array.isArray(saved) ? saved : [])
+      .map(parseTemplate)
+      .filter((template): template is PromptTemplate => template !== null)
+      .map(template => ({ ...template, code: template.code || this.translationService.getLanguageCode(template.language) }));
+    // Built-in languages are always present, even in a library saved before they were added
+    this.builtInLanguages = this.translationService.getAvailableLanguages();
+    this.builtInLanguages.forEach(language => {
+      if (!this.getTemplate(language)) {
+        this.templates.push(this.createTemplate(language, this.translationService.getLanguageCode(language), this.translationService.getPromptTemplate(language), 'Built-in'));
+      }
+    });
+    this.templates.forEach(template => this.translationService.registerLanguage(template.language, template.code));
+  }
+
+  private save(): void {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.templates));
+  }
+}
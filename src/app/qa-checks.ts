@@ -0,0 +1,192 @@
+import { TranslationData } from './translation-core';
+
+export type QaCheckKind =
+  | 'latin-residue'
+  | 'length-ratio'
+  | 'empty-translation'
+  | 'placeholder-mismatch'
+  | 'url-mismatch'
+  | 'email-mismatch'
+  | 'number-mismatch'
+  | 'label-mismatch'
+  | 'duplicate-option';
+
+export interface QaIssue {
+  rowIndex: number;
+  /** Original (untranslated) column header. */
+  column: string;
+  kind: QaCheckKind;
+  message: string;
+}
+
+export const QA_CHECK_LABELS: { [kind in QaCheckKind]: string } = {
+  'latin-residue': 'Latin script',
+  'length-ratio': 'Length',
+  'empty-translation': 'Empty',
+  'placeholder-mismatch': 'Placeholders',
+  'url-mismatch': 'URLs',
+  'email-mismatch': 'Emails',
+  'number-mismatch': 'Numbers',
+  'label-mismatch': 'Labels',
+  'duplicate-option': 'Duplicate option'
+};
+
+/** Letters of the script each target language is written in. */
+const TARGET_SCRIPTS: { [language: string]: RegExp | undefined } = {
+  'Hindi': /[ऀ-ॿ]/g,
+  'Marathi': /[ऀ-ॿ]/g
+};
+
+/** Headers of answer-option columns, e.g. "Option A", "Option 1", "Choice B". */
+const OPTION_COLUMN_PATTERN = /^(option|choice|answer option)\s*[-_]?\s*([a-h]|\d{1,2})$/i;
+
+const URL_PATTERN = /https?:\/\/[^\s)\]]+|www\.[^\s)\]]+/g;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+\w/g;
+const PLACEHOLDER_PATTERN = /\{\{[^}]*\}\}|\{[^}]*\}|%(?:\d+\$)?[sdif]/g;
+const LABEL_PATTERN = /[(\[][^()\[\]\s]{1,3}[)\]]/g;
+const NUMBER_PATTERN = /\d+(?:[.,]\d+)*/g;
+
+/** Thresholds for the length check; short texts are skipped because their ratios vary too much. */
+const MIN_LENGTH_FOR_RATIO = 20;
+const MIN_LENGTH_RATIO = 0.4;
+const MAX_LENGTH_RATIO = 2.5;
+/** Share of letters that may still be Latin in a translation into another script. */
+const MAX_LATIN_SHARE = 0.5;
+
+export interface QaOptions {
+  /** Rows kept in English, which are not checked. */
+  skippedRows?: number[];
+  /** Native digits for 0–9, so "१२" and "12" compare as the same number. */
+  nativeDigits?: string;
+  /** Columns that are only transliterated; length and number checks still apply. */
+  transliteratedColumns?: string[];
+}
+
+function matches(text: string, pattern: RegExp): string[] {
+  return (text.match(pattern) || []).map(match => match.trim());
+}
+
+function sameMultiset(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) return false;
+  const sortedA = [...a].sort();
+  const sortedB = [...b].sort();
+  return sortedA.every((value, index) => value === sortedB[index]);
+}
+
+function toWesternDigits(text: string, nativeDigits: string): string {
+  if (nativeDigits.length !== 10) return text;
+  return text.replace(/./gu, char => {
+    const digit = nativeDigits.indexOf(char);
+    return digit === -1 ? char : String(digit);
+  });
+}
+
+/** Removes the spans that legitimately stay Latin before measuring script. */
+function stripProtected(text: string): string {
+  return text.replace(URL_PATTERN, ' ').replace(EMAIL_PATTERN, ' ').replace(PLACEHOLDER_PATTERN, ' ');
+}
+
+/** Checks one translated cell against its source and returns the problems found. */
+export function checkCell(source: string, translation: string, language: string, options: QaOptions = {}): { kind: QaCheckKind; message: string }[] {
+  const problems: { kind: QaCheckKind; message: string }[] = [];
+  const sourceText = source.trim();
+  const translatedText = translation.trim();
+  if (!sourceText) return problems;
+
+  if (!translatedText) {
+    problems.push({ kind: 'empty-translation', message: 'The source has text but the translation is empty.' });
+    return problems;
+  }
+
+  const script = TARGET_SCRIPTS[language];
+  if (script) {
+    const stripped = stripProtected(translatedText);
+    const latinLetters = (stripped.match(/[A-Za-z]/g) || []).length;
+    const targetLetters = (stripped.match(script) || []).length;
+    if (latinLetters > 0 && latinLetters / (latinLetters + targetLetters) > MAX_LATIN_SHARE) {
+      problems.push({ kind: 'latin-residue', message: `Mostly Latin script (${latinLetters} of ${latinLetters + targetLetters} letters).` });
+    }
+  }
+
+  if (sourceText.length >= MIN_LENGTH_FOR_RATIO) {
+    const ratio = translatedText.length / sourceText.length;
+    if (ratio < MIN_LENGTH_RATIO || ratio > MAX_LENGTH_RATIO) {
+      problems.push({ kind: 'length-ratio', message: `Translation is ${ratio.toFixed(1)}× the length of the source.` });
+    }
+  }
+
+  const compare = (kind: QaCheckKind, pattern: RegExp, noun: string, normalize: (text: string) => string = text => text) => {
+    const expected = matches(sourceText, pattern).map(normalize);
+    const actual = matches(translatedText, pattern).map(normalize);
+    if (!sameMultiset(expected, actual)) {
+      problems.push({ kind, message: `${noun} differ: source has ${expected.join(', ') || 'none'}; translation has ${actual.join(', ') || 'none'}.` });
+    }
+  };
+  compare('placeholder-mismatch', PLACEHOLDER_PATTERN, 'Placeholders');
+  compare('url-mismatch', URL_PATTERN, 'URLs');
+  compare('email-mismatch', EMAIL_PATTERN, 'Emails', text => text.toLowerCase());
+
+  // URLs and emails often contain digits of their own; compare the numbers of the remaining text
+  const nativeDigits = options.nativeDigits || '';
+  const sourceNumbers = matches(stripProtected(sourceText), NUMBER_PATTERN);
+  const translatedNumbers = matches(toWesternDigits(stripProtected(translatedText), nativeDigits), NUMBER_PATTERN);
+  if (!sameMultiset(sourceNumbers, translatedNumbers)) {
+    problems.push({ kind: 'number-mismatch', message: `Numbers differ: source has ${sourceNumbers.join(', ') || 'none'}; translation has ${translatedNumbers.join(', ') || 'none'}.` });
+  }
+
+  // Labels are usually converted to the target script, so only their count is compared
+  const sourceLabels = matches(sourceText, LABEL_PATTERN);
+  const translatedLabels = matches(translatedText, LABEL_PATTERN);
+  if (sourceLabels.length !== translatedLabels.length) {
+    problems.push({ kind: 'label-mismatch', message: `Bracketed labels differ: source has ${sourceLabels.length}, translation has ${translatedLabels.length}.` });
+  }
+
+  return problems;
+}
+
+/**
+ * Runs the QA checks over a translated sheet. `columns` are the original
+ * headers to check; `translatedHeaders` gives their keys in the translated
+ * rows. Option columns of the same row are also compared with each other.
+ */
+export function runQaChecks(
+  sourceRows: TranslationData[],
+  translatedRows: TranslationData[],
+  columns: string[],
+  translatedHeaders: { [column: string]: string },
+  language: string,
+  options: QaOptions = {}
+): QaIssue[] {
+  const issues: QaIssue[] = [];
+  const skipped = new Set(options.skippedRows || []);
+  const transliterated = new Set(options.transliteratedColumns || []);
+  const optionColumns = columns.filter(column => OPTION_COLUMN_PATTERN.test(column.trim()));
+
+  sourceRows.forEach((sourceRow, rowIndex) => {
+    if (skipped.has(rowIndex)) return;
+    const translatedRow = translatedRows[rowIndex] || {};
+
+    columns.forEach(column => {
+      const source = sourceRow[column];
+      if (source === null || source === undefined || typeof source !== 'string') return;
+      const translation = String(translatedRow[translatedHeaders[column]] ?? '');
+      // Transliterated values keep their length and content, but not necessarily their script mix
+      checkCell(source, translation, transliterated.has(column) ? '' : language, options)
+        .forEach(problem => issues.push({ rowIndex, column, ...problem }));
+    });
+
+    const seen = new Map<string, string>();
+    optionColumns.forEach(column => {
+      const source = String(sourceRow[column] ?? '').trim();
+      const translation = String(translatedRow[translatedHeaders[column]] ?? '').trim().toLowerCase();
+      if (!source || !translation) return;
+      const previous = seen.get(translation);
+      if (previous !== undefined && String(sourceRow[previous] ?? '').trim().toLowerCase() !== source.toLowerCase()) {
+        issues.push({ rowIndex, column, kind: 'duplicate-option', message: `Same translation as "${previous}" although the source options differ.` });
+      }
+      seen.set(translation, column);
+    });
+  });
+
+  return issues;
+}
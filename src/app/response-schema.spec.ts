@@ -0,0 +1,136 @@
+import { ChunkRow, ROW_ID_KEY, matchChunkResponse } from './response-schema';
+
+describe('matchChunkResponse', () => {
+  const chunk: ChunkRow[] = [
+    { id: 'r1', row: { Question: 'Hello', Answer: 'Yes' } },
+    { id: 'r2', row: { Question: 'Goodbye' } }
+  ];
+
+  function respond(rows: unknown[]): string {
+    return JSON.stringify({ rows });
+  }
+
+  it('matches rows by ID regardless of their order', () => {
+    const match = matchChunkResponse(respond([
+      { [ROW_ID_KEY]: 'r2', Question: 'Alvida' },
+      { [ROW_ID_KEY]: 'r1', Question: 'Namaste', Answer: 'Haan' }
+    ]), chunk);
+
+    expect(match.issues).toEqual([]);
+    expect(match.rows.get('r1')).toEqual({ Question: 'Namaste', Answer: 'Haan' });
+    expect(match.rows.get('r2')).toEqual({ Question: 'Alvida' });
+  });
+
+  it('strips a markdown code fence around the response', () => {
+    const match = matchChunkResponse('```json\n' + respond([
+      { [ROW_ID_KEY]: 'r1', Question: 'Namaste', Answer: 'Haan' },
+      { [ROW_ID_KEY]: 'r2', Question: 'Alvida' }
+    ]) + '\n```', chunk);
+
+    expect(match.issues).toEqual([]);
+    expect(match.rows.size).toBe(2);
+  });
+
+  it('reports a row missing from the response', () => {
+    const match = matchChunkResponse(respond([
+      { [ROW_ID_KEY]: 'r1', Question: 'Namaste', Answer: 'Haan' }
+    ]), chunk);
+
+    expect(match.rows.has('r1')).toBeTrue();
+    expect(match.issues.map(issue => [issue.kind, issue.rowId])).toEqual([['missing', 'r2']]);
+  });
+
+  it('reports extra rows with an unknown or absent ID', () => {
+    const match = matchChunkResponse(respond([
+      { [ROW_ID_KEY]: 'r1', Question: 'Namaste', Answer: 'Haan' },
+      { [ROW_ID_KEY]: 'r2', Question: 'Alvida' },
+      { [ROW_ID_KEY]: 'r9', Question: 'Extra' },
+      { Question: 'No ID' },
+      'not a row'
+    ]), chunk);
+
+    expect(match.rows.size).toBe(2);
+    expect(match.issues.map(issue => issue.kind)).toEqual(['extra', 'extra', 'extra']);
+    expect(match.issues.every(issue => issue.rowId === undefined)).toBeTrue();
+  });
+
+  it('drops both copies of a duplicated row', () => {
+    const match = matchChunkResponse(respond([
+      { [ROW_ID_KEY]: 'r1', Question: 'Namaste', Answer: 'Haan' },
+      { [ROW_ID_KEY]: 'r1', Question: 'Pranam', Answer: 'Ji' },
+      { [ROW_ID_KEY]: 'r2', Question: 'Alvida' }
+    ]), chunk);
+
+    expect(match.rows.has('r1')).toBeFalse();
+    expect(match.rows.has('r2')).toBeTrue();
+    expect(match.issues.map(issue => [issue.kind, issue.rowId])).toEqual([['duplicate', 'r1']]);
+  });
+
+  it('reports a key its source row does not have', () => {
+    const match = matchChunkResponse(respond([
+      { [ROW_ID_KEY]: 'r1', Question: 'Namaste', Answer: 'Haan', Notes: 'Invented' },
+      { [ROW_ID_KEY]: 'r2', Question: 'Alvida' }
+    ]), chunk);
+
+    expect(match.rows.has('r1')).toBeFalse();
+    expect(match.issues.map(issue => [issue.kind, issue.rowId])).toEqual([['unknown-key', 'r1']]);
+  });
+
+  it('accepts null for a key that only other rows of the chunk have', () => {
+    const match = matchChunkResponse(respond([
+      { [ROW_ID_KEY]: 'r1', Question: 'Namaste', Answer: 'Haan' },
+      { [ROW_ID_KEY]: 'r2', Question: 'Alvida', Answer: null }
+    ]), chunk);
+
+    expect(match.issues).toEqual([]);
+    expect(match.rows.get('r2')).toEqual({ Question: 'Alvida' });
+  });
+
+  it('rejects a non-null value for a key that only other rows of the chunk have', () => {
+    const match = matchChunkResponse(respond([
+      { [ROW_ID_KEY]: 'r1', Question: 'Namaste', Answer: 'Haan' },
+      { [ROW_ID_KEY]: 'r2', Question: 'Alvida', Answer: 'Haan' }
+    ]), chunk);
+
+    expect(match.issues.map(issue => [issue.kind, issue.rowId])).toEqual([['unknown-key', 'r2']]);
+  });
+
+  it('reports a value that is missing or not text', () => {
+    const match = matchChunkResponse(respond([
+      { [ROW_ID_KEY]: 'r1', Question: 'Namaste' },
+      { [ROW_ID_KEY]: 'r2', Question: { text: 'Alvida' } }
+    ]), chunk);
+
+    expect(match.rows.size).toBe(0);
+    expect(match.issues.map(issue => [issue.kind, issue.rowId])).toEqual([
+      ['invalid-value', 'r1'],
+      ['invalid-value', 'r2']
+    ]);
+  });
+
+  it('accepts numbers and booleans where text is expected', () => {
+    const match = matchChunkResponse(respond([
+      { [ROW_ID_KEY]: 'r1', Question: 42, Answer: true },
+      { [ROW_ID_KEY]: 'r2', Question: 'Alvida' }
+    ]), chunk);
+
+    expect(match.issues).toEqual([]);
+    expect(match.rows.get('r1')).toEqual({ Question: 42, Answer: true });
+  });
+
+  it('throws when the response has no rows array', () => {
+    expect(() => matchChunkResponse(JSON.stringify({ items: [] }), chunk)).toThrowError(/no "rows" array/);
+    expect(() => matchChunkResponse('null', chunk)).toThrowError(/no "rows" array/);
+  });
+
+  it('warns about a row count mismatch through the given logger', () => {
+    const logger = jasmine.createSpyObj('logger', ['log', 'warn', 'error']);
+    matchChunkResponse(respond([{ [ROW_ID_KEY]: 'r2', Question: 'Alvida' }]), chunk, logger);
+
+    expect(logger.warn).toHaveBeenCalledWith('Expected 2 rows but the response has 1.');
+  });
+
+  it('throws when the response is not JSON', () => {
+    expect(() => matchChunkResponse('Sorry, I cannot help with that.', chunk)).toThrowError(/JSON Parse error/);
+  });
+});
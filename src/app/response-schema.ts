@@ -0,0 +1,162 @@
+import { TranslationData, CoreLogger } from './translation-core';
+import { JsonSchema } from './translation-provider';
+
+/** Key carrying each row's stable ID in requests and responses. */
+export const ROW_ID_KEY = '_rowId';
+
+/** Chunks are sent and returned wrapped as `{ "rows": [...] }`; some providers only accept an object at the root. */
+export interface ChunkPayload {
+  rows: TranslationData[];
+}
+
+/** A row as sent to the model: its stable ID and the values to translate. */
+export interface ChunkRow {
+  id: string;
+  row: TranslationData;
+}
+
+export type RowIssueKind = 'missing' | 'extra' | 'duplicate' | 'unknown-key' | 'invalid-value';
+
+/** A problem with one row of a response; the affected source row is re-requested. */
+export interface RowIssue {
+  kind: RowIssueKind;
+  /** ID of the row concerned, when the response gave a known one. */
+  rowId?: string;
+  /** Zero-based source row, filled in by the caller from `rowId`. */
+  rowIndex?: number;
+  detail: string;
+}
+
+export interface ChunkMatch {
+  /** Translated values of every row that passed validation, keyed by row ID. */
+  rows: Map<string, TranslationData>;
+  issues: RowIssue[];
+}
+
+/** The payload sent for a chunk: each row's values preceded by its ID. */
+export function buildChunkPayload(chunk: ChunkRow[]): ChunkPayload {
+  return { rows: chunk.map(item => ({ [ROW_ID_KEY]: item.id, ...item.row })) };
+}
+
+/**
+ * Schema for a chunk's translation: one object per row with its ID and the
+ * chunk's keys. Every key is listed as required; keys missing from some rows are nullable.
+ */
+export function buildChunkSchema(chunk: ChunkRow[]): JsonSchema {
+  const keys = Array.from(new Set(chunk.flatMap(item => Object.keys(item.row))));
+  const properties: { [name: string]: JsonSchema } = { [ROW_ID_KEY]: { type: 'string' } };
+  keys.forEach(key => {
+    const inEveryRow = chunk.every(item => key in item.row);
+    properties[key] = inEveryRow ? { type: 'string' } : { type: 'string', nullable: true };
+  });
+
+  return {
+    type: 'object',
+    properties: {
+      rows: {
+        type: 'array',
+        items: { type: 'object', properties, required: [ROW_ID_KEY, ...keys], additionalProperties: false }
+      }
+    },
+    required: ['rows'],
+    additionalProperties: false
+  };
+}
+
+/** Schema for an object holding one list of strings under `key`. */
+export function buildStringListSchema(key: string): JsonSchema {
+  return {
+    type: 'object',
+    properties: { [key]: { type: 'array', items: { type: 'string' } } },
+    required: [key],
+    additionalProperties: false
+  };
+}
+
+/** Schema for translated headers: a `headers` object mapping each original header to its translation. */
+export function buildHeaderSchema(headers: string[]): JsonSchema {
+  const properties: { [name: string]: JsonSchema } = {};
+  headers.forEach(header => properties[header] = { type: 'string' });
+  return {
+    type: 'object',
+    properties: {
+      headers: { type: 'object', properties, required: headers, additionalProperties: false }
+    },
+    required: ['headers'],
+    additionalProperties: false
+  };
+}
+
+/** Parses a JSON response, stripping a markdown code fence some models add even when asked not to. */
+export function parseJsonResponse(response: string): unknown {
+  try {
+    return JSON.parse(response.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+  } catch (error) {
+    throw new Error(`JSON Parse error: ${error instanceof Error ? error.message : 'invalid JSON'}`);
+  }
+}
+
+/**
+ * Parses a chunk response and matches its rows back to the chunk by ID, never
+ * by position. A row is accepted only if its ID is one that was sent, appears
+ * once, and carries exactly the keys of its source row holding text; every
+ * other row is reported. Throws only when the response as a whole is unusable.
+ */
+export function matchChunkResponse(response: string, chunk: ChunkRow[], logger: CoreLogger = console): ChunkMatch {
+  const parsed = parseJsonResponse(response);
+  const rows = (parsed as Partial<ChunkPayload> | null)?.rows;
+  if (!Array.isArray(rows)) {
+    throw new Error('Schema validation failed: the response has no "rows" array.');
+  }
+
+  const sent = new Map(chunk.map(item => [item.id, item.row]));
+  const knownKeys = new Set(chunk.flatMap(item => Object.keys(item.row)));
+  const seen = new Set<string>();
+  const match: ChunkMatch = { rows: new Map(), issues: [] };
+  if (rows.length !== chunk.length) {
+    logger.warn(`Expected ${chunk.length} rows but the response has ${rows.length}.`);
+  }
+
+  rows.forEach((row: unknown, position: number) => {
+    const values = row && typeof row === 'object' && !Array.isArray(row) ? row as { [key: string]: unknown } : null;
+    const id = values ? values[ROW_ID_KEY] : undefined;
+    const sourceRow = typeof id === 'string' ? sent.get(id) : undefined;
+    if (!values || typeof id !== 'string' || !sourceRow) {
+      match.issues.push({ kind: 'extra', detail: `Response row ${position + 1} has no known ${ROW_ID_KEY} (${JSON.stringify(id ?? null)}).` });
+      return;
+    }
+    if (seen.has(id)) {
+      // Neither copy can be trusted over the other
+      match.rows.delete(id);
+      match.issues.push({ kind: 'duplicate', rowId: id, detail: `Row ${id} appears more than once in the response.` });
+      return;
+    }
+    seen.add(id);
+
+    // Keys of other rows in the chunk may come back as null, since the schema lists them all
+    const unknownKey = Object.keys(values).find(key =>
+      key !== ROW_ID_KEY && !(key in sourceRow) && (!knownKeys.has(key) || values[key] !== null)
+    );
+    if (unknownKey !== undefined) {
+      match.issues.push({ kind: 'unknown-key', rowId: id, detail: `Row ${id} has an unexpected key "${unknownKey}".` });
+      return;
+    }
+
+    const result: TranslationData = {};
+    for (const key of Object.keys(sourceRow)) {
+      const value = values[key];
+      // A number or boolean is accepted where text is expected; the cell may simply hold one
+      if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+        match.issues.push({ kind: 'invalid-value', rowId: id, detail: `Row ${id} has no text for "${key}".` });
+        return;
+      }
+      result[key] = value;
+    }
+    match.rows.set(id, result);
+  });
+
+  chunk.filter(item => !seen.has(item.id)).forEach(item => {
+    match.issues.push({ kind: 'missing', rowId: item.id, detail: `Row ${item.id} is missing from the response.` });
+  });
+  return match;
+}
@@ -0,0 +1,96 @@
+import { ScriptSettings, convertScript, getDefaultScriptSettings, isCodeCell, postProcessRow } from './script-postprocessor';
+
+describe('convertScript', () => {
+  const hindi = getDefaultScriptSettings('Hindi');
+
+  it('converts digits to the target script', () => {
+    expect(convertScript('कक्षा 10 में 25 छात्र', hindi)).toBe('कक्षा १० में २५ छात्र');
+  });
+
+  it('converts option labels in unambiguous positions', () => {
+    expect(convertScript('(A) पहला [B] दूसरा', hindi)).toBe('(अ) पहला [ब] दूसरा');
+    expect(convertScript('A) पहला\nB. दूसरा\nC: तीसरा', hindi)).toBe('अ) पहला\nब. दूसरा\nस: तीसरा');
+    expect(convertScript('रणनीति B चुनें', hindi)).toBe('रणनीति ब चुनें');
+  });
+
+  it('leaves English letters in retained text alone', () => {
+    expect(convertScript('A cat and a dog', hindi)).toBe('A cat and a dog');
+    expect(convertScript('Plan B', hindi)).toBe('Plan B');
+  });
+
+  it('keeps URLs, emails, code and placeholders as they are', () => {
+    expect(convertScript('देखें https://example.com/page2 या 3 बार', hindi)).toBe('देखें https://example.com/page2 या ३ बार');
+    expect(convertScript('लिखें user1@example.com पर', hindi)).toBe('लिखें user1@example.com पर');
+    expect(convertScript('चलाएँ `npm run 2` और {count1} {{name2}} %1$s', hindi)).toBe('चलाएँ `npm run 2` और {count1} {{name2}} %1$s');
+  });
+
+  it('returns identifiers, bare numbers and single letters unchanged', () => {
+    expect(convertScript('Q12', hindi)).toBe('Q12');
+    expect(convertScript('AB-1034', hindi)).toBe('AB-1034');
+    expect(convertScript('42', hindi)).toBe('42');
+    expect(convertScript(' B ', hindi)).toBe(' B ');
+  });
+
+  it('changes nothing when disabled', () => {
+    expect(convertScript('(A) 10', { ...hindi, enabled: false })).toBe('(A) 10');
+  });
+
+  it('keeps Western digits when no native digits are set', () => {
+    const settings: ScriptSettings = { ...hindi, digits: '' };
+    expect(convertScript('(A) 10 अंक', settings)).toBe('(अ) 10 अंक');
+  });
+});
+
+describe('isCodeCell', () => {
+  it('recognizes identifiers and whole protected spans', () => {
+    expect(isCodeCell('Q12')).toBeTrue();
+    expect(isCodeCell('https://example.com')).toBeTrue();
+    expect(isCodeCell('{name}')).toBeTrue();
+  });
+
+  it('does not treat prose or plain words as code', () => {
+    expect(isCodeCell('Question 12')).toBeFalse();
+    expect(isCodeCell('Hello')).toBeFalse();
+  });
+});
+
+describe('getDefaultScriptSettings', () => {
+  it('enables Devanagari digits and labels for Hindi and Marathi', () => {
+    expect(getDefaultScriptSettings('Marathi').enabled).toBeTrue();
+    expect(getDefaultScriptSettings('Hindi').digits).toBe('०१२३४५६७८९');
+  });
+
+  it('is disabled for other languages', () => {
+    expect(getDefaultScriptSettings('French')).toEqual({ enabled: false, digits: '', labels: [] });
+  });
+
+  it('returns a copy the caller may edit', () => {
+    getDefaultScriptSettings('Hindi').labels[0].to = 'x';
+    expect(getDefaultScriptSettings('Hindi').labels[0].to).toBe('अ');
+  });
+});
+
+describe('postProcessRow', () => {
+  const hindi = getDefaultScriptSettings('Hindi');
+
+  it('converts only the given columns', () => {
+    const row = { Question: 'प्रश्न 1', Code: 'खंड 2' };
+    expect(postProcessRow(row, ['Question'], hindi, row)).toEqual({ Question: 'प्रश्न १', Code: 'खंड 2' });
+  });
+
+  it('leaves a cell alone when the source cell was not text', () => {
+    const source = { Marks: 5, Question: 'Question 1' };
+    const row = { Marks: '5 अंक', Question: 'प्रश्न 1' };
+    expect(postProcessRow(row, ['Marks', 'Question'], hindi, source)).toEqual({ Marks: '5 अंक', Question: 'प्रश्न १' });
+  });
+
+  it('keeps numbers and booleans as they are', () => {
+    const row = { Marks: 5, Done: true };
+    expect(postProcessRow(row, ['Marks', 'Done'], hindi, row)).toEqual({ Marks: 5, Done: true });
+  });
+
+  it('returns the row itself when disabled', () => {
+    const row = { Question: 'प्रश्न 1' };
+    expect(postProcessRow(row, ['Question'], { ...hindi, enabled: false }, row)).toBe(row);
+  });
+});
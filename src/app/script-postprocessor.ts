@@ -0,0 +1,112 @@
+import { TranslationData } from './translation-core';
+
+export interface LabelMapping {
+  /** Latin option label, e.g. "A". */
+  from: string;
+  /** Label in the target script, e.g. "अ". */
+  to: string;
+}
+
+/** Deterministic clean-up applied to translated text instead of asking the model for it. */
+export interface ScriptSettings {
+  enabled: boolean;
+  /** Native digits for 0–9 as one ten-character string; empty to keep Western digits. */
+  digits: string;
+  labels: LabelMapping[];
+}
+
+export const DEVANAGARI_DIGITS = '०१२३४५६७८९';
+
+const DEVANAGARI_LABELS: LabelMapping[] = [
+  { from: 'A', to: 'अ' },
+  { from: 'B', to: 'ब' },
+  { from: 'C', to: 'स' },
+  { from: 'D', to: 'द' }
+];
+
+export const DEFAULT_SCRIPT_SETTINGS: { [language: string]: ScriptSettings } = {
+  'Hindi': { enabled: true, digits: DEVANAGARI_DIGITS, labels: DEVANAGARI_LABELS },
+  'Marathi': { enabled: true, digits: DEVANAGARI_DIGITS, labels: DEVANAGARI_LABELS }
+};
+
+export function getDefaultScriptSettings(language: string): ScriptSettings {
+  const defaults = DEFAULT_SCRIPT_SETTINGS[language];
+  return defaults
+    ? { ...defaults, labels: defaults.labels.map(label => ({ ...label })) }
+    : { enabled: false, digits: '', labels: [] };
+}
+
+/** Spans that must keep their Latin letters and Western digits: URLs, emails, `code`, and {placeholders} / %s-style tokens. */
+const PROTECTED_PATTERN = /(https?:\/\/\S+|www\.\S+|[\w.+-]+@[\w-]+\.[\w.-]+|`[^`]*`|\{\{[^}]*\}\}|\{[^}]*\}|%(?:\d+\$)?[sdif])/g;
+
+/** A whole cell that is an identifier such as "Q12" or "AB-1034": no spaces, Latin letters and digits mixed. */
+const CODE_CELL_PATTERN = /^(?=[^\s]*[A-Za-z])(?=[^\s]*\d)[A-Za-z0-9_\-./:#]+$/;
+
+/** A whole cell that is only a number or a single letter, e.g. an answer key "B" or a count "12"; it is data, not prose. */
+const BARE_VALUE_PATTERN = /^\s*(\d+|[A-Za-z])\s*$/;
+
+export function isCodeCell(text: string): boolean {
+  const trimmed = text.trim();
+  return CODE_CELL_PATTERN.test(trimmed) || new RegExp(`^${PROTECTED_PATTERN.source}$`).test(trimmed);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function convertSegment(text: string, settings: ScriptSettings): string {
+  let result = text;
+
+  const labels = settings.labels.filter(label => label.from.trim() && label.to.trim());
+  if (labels.length > 0) {
+    const mapping = new Map(labels.map(label => [label.from.trim(), label.to.trim()]));
+    const alternatives = Array.from(mapping.keys()).map(escapeRegExp).join('|');
+    const replace = (match: string, label: string) => match.replace(label, mapping.get(label) || label);
+    // Labels only in unambiguous positions, so an English "A" or "I" in retained text is left alone:
+    // "(A)" / "[A]", "A)" / "A." / "A:" at the start of a line,
+    // and a label right after a word in the target script ("रणनीति B")
+    result = result
+      .replace(new RegExp(`[(\\[](${alternatives})[)\\]]`, 'g'), replace)
+      .replace(new RegExp(`^(${alternatives})(?=[.):](\\s|$))`, 'gm'), replace)
+      .replace(new RegExp(`(?<=[^\\x00-\\x7F]\\s)(${alternatives})(?![A-Za-z0-9])`, 'g'), replace);
+  }
+
+  if (settings.digits.length === 10) {
+    result = result.replace(/[0-9]/g, digit => settings.digits[Number(digit)]);
+  }
+  return result;
+}
+
+/**
+ * Converts digits and option labels in a translated text, leaving protected
+ * spans untouched. Identifiers and cells that are only a number or a single
+ * letter are returned as they are.
+ */
+export function convertScript(text: string, settings: ScriptSettings): string {
+  if (!settings.enabled || isCodeCell(text) || BARE_VALUE_PATTERN.test(text)) {
+    return text;
+  }
+  return text
+    .split(PROTECTED_PATTERN)
+    .map((part, index) => index % 2 === 1 ? part : convertSegment(part, settings))
+    .join('');
+}
+
+/**
+ * Applies `convertScript` to the given columns of a translated row. Only cells
+ * that are text in `sourceRow` are converted, so a number stays a number Excel
+ * can calculate with even if the model returned it as a string.
+ */
+export function postProcessRow(row: TranslationData, columns: string[], settings: ScriptSettings, sourceRow: TranslationData): TranslationData {
+  if (!settings.enabled) {
+    return row;
+  }
+  const result: TranslationData = { ...row };
+  columns.forEach(column => {
+    const value = result[column];
+    if (typeof value === 'string' && typeof sourceRow[column] === 'string') {
+      result[column] = convertScript(value, settings);
+    }
+  });
+  return result;
+}
@@ -0,0 +1,1354 @@
+import { TranslationProvider, JsonSchema, TokenUsage } from './translation-provider';
+import { GlossaryEntry, findRelevantEntries, buildGlossaryPrompt } from './glossary';
+import { TranslationMemory, MemoryEntry, MemoryStats, normalizeSourceText, hashText } from './translation-memory';
+import {
+  ChunkRow,
+  ChunkMatch,
+  RowIssue,
+  ROW_ID_KEY,
+  buildChunkPayload,
+  buildChunkSchema,
+  matchChunkResponse,
+  parseJsonResponse,
+  buildStringListSchema,
+  buildHeaderSchema
+} from './response-schema';
+import { ScriptSettings, postProcessRow } from './script-postprocessor';
+import { QaIssue, QA_CHECK_LABELS } from './qa-checks';
+import { similarityScore } from './back-translation';
+import {
+  OutputFormat,
+  INPUT_EXTENSION_PATTERN,
+  detectInputFormat,
+  decodeText,
+  parseDelimitedText,
+  parseJsonSheets,
+  unflattenRecord
+} from './file-formats';
+import { SchedulerSettings, RateLimiter, DEFAULT_SCHEDULER_SETTINGS, estimateTokens, planChunkSizes } from './chunk-scheduler';
+import { UsageEstimate, emptyUsage, addUsage, estimateRequest } from './usage';
+
+declare const XLSX: any;
+
+/** Variables a prompt may use; they are filled in when the prompt is sent. */
+export const PROMPT_VARIABLES = ['language', 'gradeLevel'];
+
+export const DEFAULT_GRADE_LEVEL = '10th-grade';
+
+/** Replaces `{{language}}` and `{{gradeLevel}}`; other `{{...}}` text is left as written. */
+export function renderPrompt(text: string, variables: { [name: string]: string }): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => variables[name] ?? match);
+}
+
+export interface TranslationData {
+  [key: string]: string | number | boolean | null | undefined;
+}
+
+export interface PromptTemplates {
+  [language: string]: string;
+}
+
+export interface StatusMessage {
+  message: string;
+  isError: boolean;
+}
+
+/** Where the core writes its diagnostics, such as API responses and row issues; the browser console by default. */
+export interface CoreLogger {
+  log(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+export interface SheetData {
+  name: string;
+  headers: string[];
+  rows: TranslationData[];
+  /** Zero-based worksheet row of each entry in `rows`. */
+  rowNumbers: number[];
+  /** Zero-based worksheet column of each header. */
+  columnIndexes: { [header: string]: number };
+  /** Zero-based worksheet row that holds the headers. */
+  headerRow: number;
+}
+
+export interface WorkbookData {
+  /** Raw bytes of the uploaded file, re-read whenever the original formatting is needed. */
+  data: Uint8Array;
+  sheets: SheetData[];
+  /** Set for JSON input, so a JSON export can rebuild the file's shape. */
+  jsonLayout?: JsonLayout;
+}
+
+export interface JsonLayout {
+  /** The file was one array of records rather than an object of arrays. */
+  isArray: boolean;
+  /** Original object key of each sheet, keyed by sheet name (which may have been shortened for Excel). */
+  keys: { [sheetName: string]: string | undefined };
+  /** The flattened keys holding null in each record, keyed by sheet name; the workbook has no cells for them. */
+  nulls: { [sheetName: string]: string[][] | undefined };
+}
+
+export interface TranslationResult {
+  /** Translated header for each original header, in the same order. */
+  headers: string[];
+  rows: TranslationData[];
+  /** Indexes of rows kept in English by the skip rules. */
+  skippedRows: number[];
+  /** Cells served from the translation memory (hits) versus sent to the model (misses). */
+  memoryStats: MemoryStats;
+  /** Rows the model dropped, duplicated, invented or answered with the wrong keys; each was re-requested. */
+  rowIssues: RowIssue[];
+}
+
+export type ReviewStatus = 'pending' | 'approved' | 'needs-fix';
+
+export interface OutputSheet {
+  name: string;
+  /** Translated header for each original header, in the same order. */
+  headers: string[];
+  rows: TranslationData[];
+  /** Indexes of rows kept in English by the skip rules. */
+  skippedRows?: number[];
+  memoryStats?: MemoryStats;
+  rowIssues?: RowIssue[];
+  /** Reviewer's verdict for each row, in the same order as `rows`. */
+  reviewStatus?: ReviewStatus[];
+  /** Problems found by the automatic QA checks. */
+  qaIssues?: QaIssue[];
+  /** English back-translations keyed by row index, each keyed by original header. */
+  backTranslations?: { [rowIndex: number]: TranslationData | undefined };
+}
+
+export type WriteMode = 'preserve' | 'rebuild';
+
+export type ExportLayout = 'translated' | 'bilingual' | 'translated-with-original';
+
+/** How several target languages are packaged: one workbook with a sheet per language, or a zip of workbooks. */
+export type LanguagePackaging = 'workbook' | 'zip';
+
+export interface ExportOptions {
+  format: OutputFormat;
+  layout: ExportLayout;
+  writeMode: WriteMode;
+  packaging: LanguagePackaging;
+  /** Adds a review status column after the last column of every translated sheet. */
+  includeReviewStatus: boolean;
+  /** Adds a back-translation and a similarity column for every back-translated column. */
+  includeBackTranslation: boolean;
+  /** Adds a sheet listing the QA issues, when there are any. */
+  includeQaSheet: boolean;
+}
+
+/** Which optional columns the export appends after the last column of each translated sheet. */
+export type ExtraColumnOptions = Partial<Pick<ExportOptions, 'includeReviewStatus' | 'includeBackTranslation'>>;
+
+export interface LanguageOutputs {
+  language: string;
+  /** Translated sheets keyed by original sheet name. */
+  sheets: { [sheetName: string]: OutputSheet | undefined };
+}
+
+/** How a column's cell values are handled: sent for translation, kept verbatim, or only transliterated into the target script. */
+export type ColumnPolicy = 'translate' | 'keep' | 'transliterate';
+
+export interface ColumnPolicies {
+  [header: string]: ColumnPolicy;
+}
+
+/** Output header for each original header. */
+export interface HeaderMapping {
+  [originalHeader: string]: string;
+}
+
+/** A sheet's reviewed header mapping for one language, saved per header signature. */
+export interface HeaderMappingSettings {
+  /** Keep every header in English instead of using `headers`. */
+  keepEnglish: boolean;
+  headers: HeaderMapping;
+}
+
+export type SkipRuleOperator = 'equals' | 'contains' | 'regex' | 'empty' | 'in-list';
+
+export interface SkipCondition {
+  column: string;
+  operator: SkipRuleOperator;
+  /** Ignored for 'empty'; comma- or newline-separated values for 'in-list'. */
+  value: string;
+}
+
+/** Rows matching these rules are kept in English. */
+export interface SkipRules {
+  combinator: 'and' | 'or';
+  conditions: SkipCondition[];
+}
+
+export interface TranslationOptions {
+  /** Per-column policy; columns without an entry are translated. */
+  columnPolicies?: ColumnPolicies;
+  /** Reviewed output headers; headers it does not cover are translated. */
+  headerMapping?: HeaderMapping;
+  skipRules?: SkipRules;
+  /** Glossary entries for the target language; the ones relevant to each chunk are added to its system prompt. */
+  glossary?: GlossaryEntry[];
+  /** Exact-match memory consulted before chunking; new translations are written back to it. */
+  translationMemory?: TranslationMemory;
+  /** Work saved by an earlier attempt at the same job; completed chunks are saved back as they finish. */
+  checkpoint?: TranslationCheckpoint;
+  /** Numeral and option-label conversion for the target language, applied after translation. */
+  scriptSettings?: ScriptSettings;
+  /** Parallelism and chunk sizing; defaults to DEFAULT_SCHEDULER_SETTINGS. */
+  scheduler?: SchedulerSettings;
+  /** Shared across sheets and languages so one run stays within the provider's limits. */
+  rateLimiter?: RateLimiter;
+}
+
+export interface TranslationCheckpoint {
+  /** Translated headers from an earlier attempt, if it got that far. */
+  headers?: string[];
+  /** Translated values from earlier attempts, keyed by row index in the sheet. */
+  rows: { [rowIndex: number]: TranslationData };
+  saveHeaders(headers: string[]): Promise<void>;
+  saveRows(rows: { [rowIndex: number]: TranslationData }): Promise<void>;
+}
+
+/** One file of an export, ready to be downloaded or written to disk. */
+export interface OutputFile {
+  name: string;
+  data: Uint8Array | string;
+}
+
+export interface TranslationProgress {
+  currentChunk: number;
+  totalChunks: number;
+  currentStep: string;
+  isProcessing: boolean;
+}
+
+/**
+ * Reading, translating and writing workbooks without any browser or framework
+ * dependency: chunking, prompting, response parsing and reconstruction. The
+ * web app wraps it in TranslationService; the command-line tool uses it directly.
+ * SheetJS is expected as the global `XLSX`.
+ */
+export class TranslationCore {
+  /** Built-in prompts; `{{language}}` and `{{gradeLevel}}` are filled in by the prompt library. */
+  private readonly PROMPT_TEMPLATES: PromptTemplates = {
+    'Hindi': `Please translate without creativity or rephrasing unless necessary for clarity.
+You are a professional educational language translator with experience in scenario-based aptitude and behavioural assessments. Your task is to translate the following English JSON data into {{language}}.
+These questions assess practical decision-making, interpersonal judgment, or cognitive skills in real-life or workplace scenarios.
+Follow these instructions precisely:
+1.  Translate into standard {{language}}, understandable to a learner with a {{gradeLevel}} reading level. Use a formal yet clear tone appropriate for academic or exam use. Avoid literary, poetic, overly Sanskritised, or conversational constructions. Do not use slang or region-specific expressions.
+2.  Ensure all language is gender-neutral, unless the original English text explicitly specifies gender.
+3.  If any word, phrase, or sentence in English is being tested (such as in synonym, idiom, or paraphrasing questions), retain it in English. Do not translate it.
+4.  The translation must preserve the meaning, tone, and logic of the original question. The correct answer must remain valid in the {{language}} version.
+5.  Maintain the structure and flow of the question and options unless a slight adjustment improves clarity in {{language}}.
+6.  If the original English input is ambiguous, unclear, or poorly written, flag it for review instead of attempting to interpret.
+7.  Maintain the exact JSON structure (keys and nesting). Only translate the string values. Do not translate the keys.
+8.  Return ONLY the translated JSON, without any surrounding text, explanations, or markdown formatting like \`\`\`json.`,
+    'Marathi': `Please translate without creativity or rephrasing unless necessary for clarity.
+You are a professional educational language translator with experience in scenario-based aptitude and behavioural assessments. Your task is to translate the following English JSON data into {{language}}.
+These questions test practical reasoning, workplace behaviour, communication, or decision-making in real or simulated situations.
+Follow these instructions precisely:
+1.  Translate into standard {{language}}, suitable for a learner at the {{gradeLevel}} reading level. Use a formal yet clear tone.
+2.  Ensure all language is gender-neutral, unless the original English text explicitly specifies gender.
+3.  The translation must preserve the meaning, tone, and logic of the original question. The correct answer must remain valid in the {{language}} version.
+4.  Maintain the exact JSON structure (keys and nesting). Only translate the string values. Do not translate the keys.
+5.  Return ONLY the translated JSON, without any surrounding text, explanations, or markdown formatting like \`\`\`json.`
+  };
+
+  /**
+   * Numeral and label instructions, added to the prompt only when the script
+   * post-processor is off for the language; otherwise the conversion is done
+   * deterministically after translation.
+   */
+  private readonly SCRIPT_INSTRUCTIONS: PromptTemplates = {
+    'Hindi': `
+
+Also:
+- Convert numbers to their Hindi script equivalents (e.g., 1 to १, 2 to २).
+- When you encounter single English letters used as labels (e.g., 'Assertion (A)', 'Strategy B'), translate them to their corresponding Devanagari letters (e.g., 'अभिकथन (अ)', 'रणनीति ब') unless they are part of a specific term that must remain in English.`,
+    'Marathi': `
+
+Also:
+- Convert numbers to their Marathi script equivalents (e.g., 1 to १, 2 to २).
+- When you encounter single English letters used as labels (e.g., 'Assertion (A)', 'Strategy B'), translate them to their corresponding Devanagari letters (e.g., 'अभिकथन (अ)', 'रणनीति ब') unless they are part of a specific term that must remain in English.`
+  };
+
+  private readonly LANGUAGE_CODES: { [language: string]: string } = {
+    'English': 'EN',
+    'Hindi': 'HI',
+    'Marathi': 'MR'
+  };
+  private customLanguageCodes: { [language: string]: string } = {};
+
+  /** Receives every status message, e.g. to show it in the page or print it. */
+  onStatus?: (status: StatusMessage) => void;
+
+  constructor(protected readonly logger: CoreLogger = console) {}
+
+  /** The built-in prompt for a language; languages without one start from the general Marathi prompt. */
+  getPromptTemplate(language: string): string {
+    return this.PROMPT_TEMPLATES[language] || this.PROMPT_TEMPLATES['Marathi'];
+  }
+
+  /** Prompt text asking the model for native numerals and labels; empty when the post-processor handles them. */
+  getScriptInstructions(language: string, scriptSettings?: ScriptSettings): string {
+    return scriptSettings?.enabled ? '' : this.SCRIPT_INSTRUCTIONS[language] || '';
+  }
+
+  getAvailableLanguages(): string[] {
+    return Array.from(new Set([...Object.keys(this.PROMPT_TEMPLATES), ...Object.keys(this.customLanguageCodes)]));
+  }
+
+  /** Makes a user-defined target language and its code known, e.g. Tamil as TA. */
+  registerLanguage(language: string, code: string): void {
+    this.customLanguageCodes[language] = code.toUpperCase();
+  }
+
+  getLanguageCode(language: string): string {
+    return this.LANGUAGE_CODES[language] || this.customLanguageCodes[language] || language.substring(0, 2).toUpperCase();
+  }
+
+  getLanguageName(code: string): string {
+    const upperCode = code.toUpperCase();
+    return Object.keys(this.LANGUAGE_CODES).find(language => this.LANGUAGE_CODES[language] === upperCode)
+      || this.getAvailableLanguages().find(language => this.getLanguageCode(language) === upperCode)
+      || upperCode;
+  }
+
+  updateStatus(message: string, isError: boolean = false): void {
+    this.onStatus?.({ message, isError });
+  }
+
+  private readonly READ_OPTIONS = { type: 'array', cellStyles: true, cellNF: true };
+  private readonly REVIEW_STATUS_HEADER = 'Review Status';
+  private readonly QA_SHEET_NAME = 'QA';
+  private readonly BACK_TRANSLATION_PROMPT = `You are checking a translation for meaning drift. Translate the following {{language}} text back into English as literally as possible. Do not improve, correct or explain it, and do not guess what the original English was. Keep numbers, placeholders, URLs and option labels as they appear.`;
+
+  /**
+   * Reads any supported file. Spreadsheets are read as they are; CSV, TSV and
+   * JSON are first converted to an xlsx workbook, so exports and the
+   * formatting-preserving writer work the same for every input.
+   */
+  parseFile(data: Uint8Array, fileName: string): WorkbookData {
+    const format = detectInputFormat(fileName);
+    if (format === 'xlsx' || format === 'xls' || format === 'ods') {
+      return this.parseWorkbook(data);
+    }
+
+    const workbook = XLSX.utils.book_new();
+    const usedNames = new Set<string>();
+    const baseName = fileName.replace(INPUT_EXTENSION_PATTERN, '') || 'Sheet1';
+    const text = decodeText(data);
+    let jsonLayout: JsonLayout | undefined;
+    if (format === 'json') {
+      const json = parseJsonSheets(text, baseName);
+      const keys: JsonLayout['keys'] = {};
+      const nulls: JsonLayout['nulls'] = {};
+      jsonLayout = { isArray: json.isArray, keys, nulls };
+      json.sheets.forEach(sheet => {
+        const sheetName = this.sanitizeSheetName(sheet.name, usedNames);
+        keys[sheetName] = sheet.name;
+        nulls[sheetName] = sheet.rows.map(row => Object.keys(row).filter(key => row[key] === null));
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(sheet.rows), sheetName);
+      });
+    } else {
+      const rows = parseDelimitedText(text, format === 'tsv' ? '\t' : undefined);
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), this.sanitizeSheetName(baseName, usedNames));
+    }
+    return { ...this.parseWorkbook(new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }))), jsonLayout };
+  }
+
+  parseWorkbook(data: Uint8Array): WorkbookData {
+    const workbook = XLSX.read(data, this.READ_OPTIONS);
+    const sheets: SheetData[] = workbook.SheetNames.map((sheetName: string) =>
+      this.readSheet(sheetName, workbook.Sheets[sheetName])
+    );
+    return { data, sheets };
+  }
+
+  private readSheet(name: string, worksheet: any): SheetData {
+    const rows: TranslationData[] = XLSX.utils.sheet_to_json(worksheet);
+    if (!worksheet['!ref']) {
+      return { name, headers: [], rows, rowNumbers: [], columnIndexes: {}, headerRow: 0 };
+    }
+    const range = XLSX.utils.decode_range(worksheet['!ref']);
+    return {
+      name,
+      headers: this.collectHeaders(rows),
+      rows,
+      // sheet_to_json tags each row object with a non-enumerable __rowNum__
+      rowNumbers: rows.map(row => (row as any).__rowNum__ as number),
+      columnIndexes: this.mapHeaderColumns(worksheet, range),
+      headerRow: range.s.r
+    };
+  }
+
+  private collectHeaders(rows: TranslationData[]): string[] {
+    // Rows omit empty cells, so take the union of keys in first-seen order
+    const headers = new Set<string>();
+    rows.forEach(row => Object.keys(row).forEach(key => headers.add(key)));
+    return Array.from(headers);
+  }
+
+  private mapHeaderColumns(worksheet: any, range: any): { [header: string]: number } {
+    // Copy the header row above a row of column indexes so that sheet_to_json
+    // applies its own key naming (__EMPTY, duplicate suffixes) and hands back header -> column
+    const probe: any = {};
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const headerCell = worksheet[XLSX.utils.encode_cell({ r: range.s.r, c })];
+      if (headerCell) {
+        probe[XLSX.utils.encode_cell({ r: 0, c: c - range.s.c })] = headerCell;
+      }
+      probe[XLSX.utils.encode_cell({ r: 1, c: c - range.s.c })] = { t: 'n', v: c };
+    }
+    probe['!ref'] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: 1, c: range.e.c - range.s.c } });
+    return XLSX.utils.sheet_to_json(probe)[0] || {};
+  }
+
+  async translateDataWithProgress(
+    originalData: TranslationData[],
+    originalHeaders: string[],
+    systemPrompt: string,
+    language: string,
+    provider: TranslationProvider,
+    progressCallback: (progress: TranslationProgress) => void,
+    options: TranslationOptions = {}
+  ): Promise<TranslationResult> {
+    // Filter data: separate rows to translate from rows to keep in English
+    const { skippedRows, rowIndexes, dataToTranslate } = this.partitionRows(originalData, options.skipRules);
+    const checkpoint = options.checkpoint;
+    
+    // Only translatable columns go to the model; kept columns are merged back from the source row
+    const policies = options.columnPolicies || {};
+    const sentHeaders = originalHeaders.filter(header => policies[header] !== 'keep');
+    
+    // Step 1: Translate Headers
+    progressCallback({
+      currentChunk: 0,
+      totalChunks: dataToTranslate.length + 1,
+      currentStep: 'Translating column headers...',
+      isProcessing: true
+    });
+    
+    const headerMapping: HeaderMapping = { ...options.headerMapping };
+    const missingHeaders = this.findMissingHeaders(originalHeaders, headerMapping);
+    let translatedHeaders: string[];
+    if (missingHeaders.length === 0) {
+      translatedHeaders = this.buildOutputHeaders(originalHeaders, headerMapping);
+    } else if (checkpoint?.headers && checkpoint.headers.length === originalHeaders.length) {
+      translatedHeaders = checkpoint.headers;
+    } else {
+      Object.assign(headerMapping, await this.translateHeaders(missingHeaders, language, provider));
+      translatedHeaders = this.buildOutputHeaders(originalHeaders, headerMapping);
+      await checkpoint?.saveHeaders(translatedHeaders);
+    }
+
+    // Step 2: Serve exact matches from the translation memory; only the misses go to the model
+    const scriptSettings = options.scriptSettings;
+    const fullPrompt = systemPrompt + this.getScriptInstructions(language, scriptSettings);
+    const { promptHashes, memoryStats, translatedRowValues, pendingRows } =
+      await this.collectPendingRows(dataToTranslate, rowIndexes, sentHeaders, fullPrompt, language, options);
+
+    // Step 3: Translate the remaining data in chunks, several at a time. Chunk size
+    // grows by one row after every fully valid response and halves when rows are rejected.
+    const scheduler = options.scheduler || DEFAULT_SCHEDULER_SETTINGS;
+    const concurrency = Math.max(1, scheduler.concurrency);
+    const maxChunkSize = Math.max(1, scheduler.maxChunkSize);
+    let chunkSize = Math.min(maxChunkSize, Math.max(1, scheduler.initialChunkSize));
+    const queue = [...pendingRows];
+    const totalRows = pendingRows.length;
+    const rowIndexById = new Map(pendingRows.map(item => [item.id, item.rowIndex]));
+    const rowIssues: RowIssue[] = [];
+    const memoryNote = memoryStats.hits > 0 ? ` (${memoryStats.hits} cells from translation memory)` : '';
+    // A failed row does not stop the run (it stays pending in the checkpoint for a retry),
+    // unless failures keep happening back to back, which points at the provider rather than the data
+    const MAX_CONSECUTIVE_FAILURES = 3;
+    // A single row whose response fails validation is asked for again before it counts as failed
+    const MAX_ROW_ATTEMPTS = 2;
+    const rowAttempts = new Map<string, number>();
+    let failedRows = 0;
+    let consecutiveFailures = 0;
+    let completedRowCount = 0;
+    let requestCount = 0;
+    let activeRequests = 0;
+    let fatalError: unknown;
+
+    const reportProgress = () => {
+      progressCallback({
+        currentChunk: completedRowCount + failedRows + 1, // +1 for headers
+        totalChunks: totalRows + 1,
+        currentStep: `Translated ${completedRowCount} of ${totalRows} rows, ${activeRequests} request(s) in flight${memoryNote}...`,
+        isProcessing: true
+      });
+    };
+
+    const runWorker = async () => {
+      while (queue.length > 0 && fatalError === undefined) {
+        const chunkItems = queue.splice(0, chunkSize);
+        const chunk = chunkItems.map(item => item.row);
+        const requestNumber = ++requestCount;
+        const request = this.buildChunkRequest(chunkItems, fullPrompt, language, policies, options.glossary);
+        let match: ChunkMatch = { rows: new Map(), issues: [] };
+        let requestError: unknown;
+        activeRequests++;
+        reportProgress();
+        try {
+          // The response is about as long as the request, so budget for both
+          await options.rateLimiter?.acquire(estimateTokens(request.systemPrompt + request.userPrompt) * 2);
+          const translatedJsonString = await provider.complete(request.systemPrompt, request.userPrompt, request.schema);
+          
+          // Log the response for debugging (first 500 chars)
+          this.logger.log(`API Response (request ${requestNumber}, ${chunk.length} rows):`, translatedJsonString.substring(0, 500) + '...');
+          this.logger.log(`API Response length:`, translatedJsonString.length);
+          
+          match = matchChunkResponse(translatedJsonString, chunkItems, this.logger);
+        } catch (error) {
+          this.logger.error(`Request ${requestNumber} (${chunk.length} rows) failed:`, error);
+          requestError = error;
+        } finally {
+          activeRequests--;
+        }
+
+        if (match.issues.length > 0) {
+          this.logger.warn(`Request ${requestNumber}: ${match.issues.length} row issue(s); the affected rows are re-requested.`, match.issues);
+          match.issues.forEach(issue => rowIssues.push({ ...issue, rowIndex: issue.rowId ? rowIndexById.get(issue.rowId) : undefined }));
+        }
+        const acceptedItems = chunkItems.filter(item => match.rows.has(item.id));
+        const rejectedItems = chunkItems.filter(item => !match.rows.has(item.id));
+
+        if (rejectedItems.length === 0) {
+          consecutiveFailures = 0;
+          chunkSize = Math.min(maxChunkSize, chunkSize + 1);
+        } else if (chunkItems.length > 1) {
+          // Put the rejected rows back at the front of the queue and retry them in smaller chunks
+          if (acceptedItems.length > 0) consecutiveFailures = 0;
+          chunkSize = Math.max(1, Math.floor(chunkItems.length / 2));
+          queue.unshift(...rejectedItems);
+        } else {
+          const attempts = (rowAttempts.get(chunkItems[0].id) || 0) + 1;
+          rowAttempts.set(chunkItems[0].id, attempts);
+          if (attempts < MAX_ROW_ATTEMPTS) {
+            queue.unshift(...chunkItems);
+            continue;
+          }
+          failedRows++;
+          if (++consecutiveFailures >= MAX_CONSECUTIVE_FAILURES || !checkpoint) {
+            fatalError = requestError ?? new Error(`Row ${chunkItems[0].rowIndex + 1} could not be translated: ${match.issues.map(issue => issue.detail).join(' ')}`);
+          }
+          continue;
+        }
+        if (acceptedItems.length === 0) continue;
+
+        const newMemoryEntries: MemoryEntry[] = [];
+        const completedRows: { [rowIndex: number]: TranslationData } = {};
+        acceptedItems.forEach(item => {
+          const parsedRow = match.rows.get(item.id) || {};
+          Object.assign(translatedRowValues[item.rowIndex], parsedRow);
+          completedRows[item.rowIndex] = translatedRowValues[item.rowIndex];
+          Object.keys(item.row).forEach(header => {
+            const target = parsedRow[header];
+            if (target !== undefined && target !== null && String(target).trim() !== '') {
+              newMemoryEntries.push({
+                source: normalizeSourceText(String(item.row[header])),
+                target: String(target),
+                language,
+                promptHash: promptHashes[header]
+              });
+            }
+          });
+        });
+        completedRowCount += acceptedItems.length;
+        reportProgress();
+        this.updateStatus(`Translated ${completedRowCount} of ${totalRows} rows...`, false);
+        await options.translationMemory?.store(newMemoryEntries);
+        await checkpoint?.saveRows(completedRows);
+      }
+    };
+
+    await Promise.all(Array.from({ length: concurrency }, () => runWorker()));
+    if (fatalError !== undefined) {
+      throw fatalError;
+    }
+
+    if (failedRows > 0) {
+      throw new Error(`${failedRows} of ${totalRows} rows failed. Completed rows are saved; retry to translate only the failed ones.`);
+    }
+
+    // Step 4: Reconstruct the full data set
+    progressCallback({
+      currentChunk: totalRows + 1,
+      totalChunks: totalRows + 1,
+      currentStep: 'Finalizing translation...',
+      isProcessing: true
+    });
+
+    const skippedRowSet = new Set(skippedRows);
+    const translatedData = originalData.map((originalRow, rowIndex) => {
+      const newRow: TranslationData = {};
+      const shouldSkipTranslation = skippedRowSet.has(rowIndex);
+      const translatedRow = translatedRowValues[rowIndex];
+      if (!shouldSkipTranslation && !translatedRow) {
+        throw new Error(`Row ${rowIndex + 1} has no translation.`);
+      }
+      const sourceRow = shouldSkipTranslation
+        ? originalRow
+        : scriptSettings ? postProcessRow(translatedRow, sentHeaders, scriptSettings, originalRow) : translatedRow;
+
+      originalHeaders.forEach((originalHeader, index) => {
+        const translatedHeader = translatedHeaders[index];
+        newRow[translatedHeader] = policies[originalHeader] === 'keep'
+          ? originalRow[originalHeader]
+          : sourceRow[originalHeader];
+      });
+      return newRow;
+    });
+
+    return { headers: translatedHeaders, rows: translatedData, skippedRows, memoryStats, rowIssues };
+  }
+
+  /** Splits rows into those matching the skip rules, which stay in English, and those to translate. */
+  private partitionRows(
+    originalData: TranslationData[],
+    skipRules: SkipRules = { combinator: 'or', conditions: [] }
+  ): { skippedRows: number[]; rowIndexes: number[]; dataToTranslate: TranslationData[] } {
+    const skippedRows: number[] = [];
+    const rowIndexes: number[] = [];
+    const dataToTranslate = originalData.filter((row, index) => {
+      if (this.matchesSkipRules(row, skipRules)) {
+        skippedRows.push(index);
+        return false;
+      }
+      rowIndexes.push(index);
+      return true;
+    });
+    return { skippedRows, rowIndexes, dataToTranslate };
+  }
+
+  /** Headers the mapping does not cover; they are sent to the model unless a checkpoint has them. */
+  private findMissingHeaders(headers: string[], mapping: HeaderMapping = {}): string[] {
+    return headers.filter(header => !(header in mapping));
+  }
+
+  /**
+   * Fills in the cells the checkpoint or the translation memory already has and
+   * returns the rest as rows to send, in sheet order. Only text is sent: empty,
+   * number and boolean cells are copied as they are, so numeric columns keep their type.
+   */
+  private async collectPendingRows(
+    dataToTranslate: TranslationData[],
+    rowIndexes: number[],
+    sentHeaders: string[],
+    fullPrompt: string,
+    language: string,
+    options: TranslationOptions
+  ): Promise<{
+    promptHashes: { [header: string]: string };
+    memoryStats: MemoryStats;
+    translatedRowValues: { [rowIndex: number]: TranslationData };
+    pendingRows: (ChunkRow & { rowIndex: number })[];
+  }> {
+    const checkpoint = options.checkpoint;
+    const policies = options.columnPolicies || {};
+    const promptHashes: { [header: string]: string } = {};
+    sentHeaders.forEach(header => {
+      promptHashes[header] = hashText(policies[header] === 'transliterate' ? `${fullPrompt}\u0000transliterate` : fullPrompt);
+    });
+    const memoryHits = await this.lookupMemory(dataToTranslate, sentHeaders, promptHashes, language, options.translationMemory);
+    const memoryStats: MemoryStats = { hits: 0, misses: 0 };
+    // Translated values keyed by source row index, so no row can ever take another row's answer
+    const translatedRowValues: { [rowIndex: number]: TranslationData } = {};
+    const pendingRows: (ChunkRow & { rowIndex: number })[] = [];
+
+    dataToTranslate.forEach((row, index) => {
+      const rowIndex = rowIndexes[index];
+      // Rows finished by an earlier attempt at this job are not sent again
+      const savedRow = checkpoint?.rows[rowIndex];
+      if (savedRow) {
+        translatedRowValues[rowIndex] = { ...savedRow };
+        return;
+      }
+
+      const values: TranslationData = {};
+      const pending: TranslationData = {};
+      sentHeaders.forEach(header => {
+        if (!(header in row)) return;
+        const value = row[header];
+        const text = typeof value === 'string' ? normalizeSourceText(value) : '';
+        const hit = text ? memoryHits.get(`${promptHashes[header]}\u0001${text}`) : undefined;
+        if (!text) {
+          values[header] = value;
+        } else if (hit !== undefined) {
+          values[header] = hit;
+          memoryStats.hits++;
+        } else {
+          pending[header] = value;
+          memoryStats.misses++;
+        }
+      });
+      translatedRowValues[rowIndex] = values;
+      if (Object.keys(pending).length > 0) {
+        pendingRows.push({ id: `r${rowIndex + 1}`, rowIndex, row: pending });
+      }
+    });
+    return { promptHashes, memoryStats, translatedRowValues, pendingRows };
+  }
+
+  /**
+   * Prompts and response schema for one chunk. Transliterate-only fields get
+   * their own note; glossary entries are limited to terms the chunk contains.
+   */
+  private buildChunkRequest(
+    chunkItems: ChunkRow[],
+    systemPrompt: string,
+    language: string,
+    policies: ColumnPolicies,
+    glossary: GlossaryEntry[] = [],
+    extraInstruction: string = ''
+  ): { systemPrompt: string; userPrompt: string; schema: JsonSchema } {
+    const chunk = chunkItems.map(item => item.row);
+    const transliteratedHeaders = Array.from(new Set(chunk.flatMap(row => Object.keys(row))))
+      .filter(header => policies[header] === 'transliterate');
+    const transliterationNote = transliteratedHeaders.length > 0
+      ? ` For the fields ${transliteratedHeaders.map(header => `"${header}"`).join(', ')}, only transliterate the value into the ${language} script; do not translate it.`
+      : '';
+    const extraNote = extraInstruction.trim() ? `\n\nAdditional instruction from the reviewer: ${extraInstruction.trim()}` : '';
+
+    return {
+      systemPrompt: systemPrompt + buildGlossaryPrompt(findRelevantEntries(glossary, chunk)) + extraNote,
+      userPrompt: `Translate the following JSON data according to the instructions.${transliterationNote} Return a JSON object of the same shape: a "rows" array with one object per input row, in the same order and with the same keys. Copy each row's "${ROW_ID_KEY}" unchanged.\n\n${JSON.stringify(buildChunkPayload(chunkItems), null, 2)}`,
+      schema: buildChunkSchema(chunkItems)
+    };
+  }
+
+  /**
+   * Translates a single source row again, bypassing the translation memory, and
+   * returns the new values keyed by original header. Only non-empty text cells
+   * of columns that are not kept verbatim are sent.
+   */
+  async retranslateRow(
+    row: TranslationData,
+    headers: string[],
+    systemPrompt: string,
+    language: string,
+    provider: TranslationProvider,
+    options: { columnPolicies?: ColumnPolicies; glossary?: GlossaryEntry[]; extraInstruction?: string; scriptSettings?: ScriptSettings } = {}
+  ): Promise<TranslationData> {
+    const policies = options.columnPolicies || {};
+    const pending: TranslationData = {};
+    headers.filter(header => policies[header] !== 'keep').forEach(header => {
+      const value = row[header];
+      if (typeof value === 'string' && value.trim() !== '') {
+        pending[header] = value;
+      }
+    });
+    if (Object.keys(pending).length === 0) {
+      return {};
+    }
+
+    const item: ChunkRow = { id: 'r1', row: pending };
+    const fullPrompt = systemPrompt + this.getScriptInstructions(language, options.scriptSettings);
+    const request = this.buildChunkRequest([item], fullPrompt, language, policies, options.glossary, options.extraInstruction);
+    const response = await provider.complete(request.systemPrompt, request.userPrompt, request.schema);
+    const match = matchChunkResponse(response, [item], this.logger);
+    const translated = match.rows.get(item.id);
+    if (!translated) {
+      throw new Error(`The response did not match the row: ${match.issues.map(issue => issue.detail).join(' ')}`);
+    }
+    return options.scriptSettings ? postProcessRow(translated, Object.keys(translated), options.scriptSettings, row) : translated;
+  }
+
+  /** Looks up every non-empty sent text cell; the returned map is keyed by `${promptHash}\u0001${normalizedSource}`. */
+  private async lookupMemory(
+    rows: TranslationData[],
+    headers: string[],
+    promptHashes: { [header: string]: string },
+    language: string,
+    memory?: TranslationMemory
+  ): Promise<Map<string, string>> {
+    const hits = new Map<string, string>();
+    if (!memory) {
+      return hits;
+    }
+
+    const sourcesByHash = new Map<string, Set<string>>();
+    rows.forEach(row => headers.forEach(header => {
+      const value = row[header];
+      const text = typeof value === 'string' ? normalizeSourceText(value) : '';
+      if (!text) return;
+      const sources = sourcesByHash.get(promptHashes[header]) || new Set<string>();
+      sources.add(text);
+      sourcesByHash.set(promptHashes[header], sources);
+    }));
+
+    for (const [promptHash, sources] of sourcesByHash) {
+      const found = await memory.lookup(Array.from(sources), language, promptHash);
+      found.forEach((target, source) => hits.set(`${promptHash}\u0001${source}`, target));
+    }
+    return hits;
+  }
+
+  matchesSkipRules(row: TranslationData, rules: SkipRules): boolean {
+    if (rules.conditions.length === 0) {
+      return false;
+    }
+    const matches = (condition: SkipCondition) => this.matchesSkipCondition(row, condition);
+    return rules.combinator === 'and'
+      ? rules.conditions.every(matches)
+      : rules.conditions.some(matches);
+  }
+
+  private matchesSkipCondition(row: TranslationData, condition: SkipCondition): boolean {
+    const cell = row[condition.column];
+    const text = cell === undefined || cell === null ? '' : String(cell).trim();
+    const expected = condition.value.trim();
+
+    switch (condition.operator) {
+      case 'equals':
+        return text.toLowerCase() === expected.toLowerCase();
+      case 'contains':
+        return expected !== '' && text.toLowerCase().includes(expected.toLowerCase());
+      case 'regex':
+        try {
+          return expected !== '' && new RegExp(expected).test(text);
+        } catch (error) {
+          this.logger.warn(`Invalid skip rule pattern: ${expected}`);
+          return false;
+        }
+      case 'empty':
+        return text === '';
+      case 'in-list':
+        return condition.value
+          .split(/[,\n]/)
+          .map(value => value.trim().toLowerCase())
+          .filter(value => value !== '')
+          .includes(text.toLowerCase());
+    }
+  }
+
+  private pickFields(row: TranslationData, headers: string[]): TranslationData {
+    const picked: TranslationData = {};
+    headers.forEach(header => {
+      if (header in row) {
+        picked[header] = row[header];
+      }
+    });
+    return picked;
+  }
+
+  /** Identifies files built from the same template, for reusing per-file settings. */
+  getHeaderSignature(headers: string[]): string {
+    return JSON.stringify(headers);
+  }
+
+  /**
+   * Translates cells of a translated sheet back into English with a separate,
+   * literal prompt. `rows` holds only the cells to check, keyed by row index
+   * and original header; rows the model does not return are left out.
+   */
+  async backTranslateRows(
+    rows: Map<number, TranslationData>,
+    language: string,
+    provider: TranslationProvider,
+    chunkSize: number,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<Map<number, TranslationData>> {
+    const items: ChunkRow[] = Array.from(rows.entries()).map(([rowIndex, row]) => ({ id: `r${rowIndex + 1}`, row }));
+    const systemPrompt = this.BACK_TRANSLATION_PROMPT.replace(/{{language}}/g, language);
+    const results = new Map<number, TranslationData>();
+    const size = Math.max(1, chunkSize);
+
+    for (let start = 0; start < items.length; start += size) {
+      const chunk = items.slice(start, start + size);
+      const userPrompt = `Translate the following JSON data into English. Return a JSON object of the same shape: a "rows" array with one object per input row, in the same order and with the same keys. Copy each row's "${ROW_ID_KEY}" unchanged.\n\n${JSON.stringify(buildChunkPayload(chunk), null, 2)}`;
+      const response = await provider.complete(systemPrompt, userPrompt, buildChunkSchema(chunk));
+      const match = matchChunkResponse(response, chunk, this.logger);
+      match.rows.forEach((row, id) => results.set(Number(id.substring(1)) - 1, row));
+      match.issues.forEach(issue => this.logger.warn(`Back-translation: ${issue.detail}`));
+      onProgress?.(Math.min(start + size, items.length), items.length);
+    }
+    return results;
+  }
+
+  /**
+   * Translates column headers as a JSON object keyed by original header, so
+   * commas inside a header or in the reply cannot shift the columns. A header
+   * the model leaves out or returns empty keeps its English name.
+   */
+  async translateHeaders(headers: string[], language: string, provider: TranslationProvider): Promise<HeaderMapping> {
+    const request = this.buildHeaderRequest(headers, language);
+    const responseText = await provider.complete(request.systemPrompt, request.userPrompt, buildHeaderSchema(headers));
+    const translated = (parseJsonResponse(responseText) as { headers?: unknown } | null)?.headers;
+    if (!translated || typeof translated !== 'object' || Array.isArray(translated)) {
+      throw new Error('Header translation failed: the response has no "headers" object.');
+    }
+
+    const mapping: HeaderMapping = {};
+    headers.forEach(header => {
+      const value = (translated as { [header: string]: unknown })[header];
+      if (typeof value === 'string' && value.trim()) {
+        mapping[header] = value.trim();
+      } else {
+        this.logger.warn(`No translation for header "${header}"; keeping it in English.`);
+        mapping[header] = header;
+      }
+    });
+    return mapping;
+  }
+
+  /**
+   * Output headers in the original order. Headers that would collide, e.g. two
+   * that translate to the same word, get a number so no column overwrites another.
+   */
+  private buildOutputHeaders(originalHeaders: string[], mapping: HeaderMapping): string[] {
+    const used = new Set<string>();
+    return originalHeaders.map(header => {
+      const base = mapping[header]?.trim() || header;
+      let candidate = base;
+      let counter = 2;
+      while (used.has(candidate)) {
+        candidate = `${base} (${counter++})`;
+      }
+      used.add(candidate);
+      return candidate;
+    });
+  }
+
+  private buildHeaderRequest(headers: string[], language: string): { systemPrompt: string; userPrompt: string; payload: string } {
+    const mapping: HeaderMapping = {};
+    headers.forEach(header => mapping[header] = header);
+    const payload = JSON.stringify({ headers: mapping }, null, 2);
+    return {
+      systemPrompt: `You are a concise translator.`,
+      userPrompt: `Translate the spreadsheet column headers in the following JSON into ${language}. Return a JSON object of the same shape: a "headers" object with exactly the same keys, each mapped to its translated header. Do not translate the keys.\n\n${payload}`,
+      payload
+    };
+  }
+
+  async translateSheetNames(sheetNames: string[], language: string, provider: TranslationProvider): Promise<string[]> {
+    const request = this.buildSheetNameRequest(sheetNames, language);
+    const responseText = await provider.complete(request.systemPrompt, request.userPrompt, buildStringListSchema('names'));
+    const translatedNames = (parseJsonResponse(responseText) as { names?: unknown } | null)?.names;
+
+    if (!Array.isArray(translatedNames) || translatedNames.length !== sheetNames.length) {
+      throw new Error("Sheet name translation failed: Mismatch in sheet count.");
+    }
+    return translatedNames.map(name => String(name));
+  }
+
+  private buildSheetNameRequest(sheetNames: string[], language: string): { systemPrompt: string; userPrompt: string; payload: string } {
+    const payload = JSON.stringify({ names: sheetNames });
+    return {
+      systemPrompt: `You are a concise translator.`,
+      userPrompt: `Translate the spreadsheet tab names in the following JSON into ${language}. Return a JSON object of the same shape with the names in the same order.\n\n${payload}`,
+      payload
+    };
+  }
+
+  /**
+   * Pre-flight estimate for `translateDataWithProgress` with the same arguments:
+   * builds the header request and the chunk requests the run would send, with
+   * chunk sizes as planned by the scheduler, without calling the provider.
+   */
+  async estimateUsage(
+    originalData: TranslationData[],
+    originalHeaders: string[],
+    systemPrompt: string,
+    language: string,
+    options: TranslationOptions = {}
+  ): Promise<UsageEstimate> {
+    const { rowIndexes, dataToTranslate } = this.partitionRows(originalData, options.skipRules);
+    const policies = options.columnPolicies || {};
+    const sentHeaders = originalHeaders.filter(header => policies[header] !== 'keep');
+    let usage = emptyUsage();
+
+    const missingHeaders = this.findMissingHeaders(originalHeaders, options.headerMapping);
+    const checkpointHeaders = options.checkpoint?.headers;
+    if (missingHeaders.length > 0 && checkpointHeaders?.length !== originalHeaders.length) {
+      const request = this.buildHeaderRequest(missingHeaders, language);
+      usage = addUsage(usage, estimateRequest(request.systemPrompt, request.userPrompt, request.payload));
+    }
+
+    const fullPrompt = systemPrompt + this.getScriptInstructions(language, options.scriptSettings);
+    const { pendingRows } = await this.collectPendingRows(dataToTranslate, rowIndexes, sentHeaders, fullPrompt, language, options);
+    let start = 0;
+    planChunkSizes(pendingRows.length, options.scheduler || DEFAULT_SCHEDULER_SETTINGS).forEach(size => {
+      const chunkItems = pendingRows.slice(start, start + size);
+      const request = this.buildChunkRequest(chunkItems, fullPrompt, language, policies, options.glossary);
+      usage = addUsage(usage, estimateRequest(request.systemPrompt, request.userPrompt, JSON.stringify(buildChunkPayload(chunkItems), null, 2)));
+      start += size;
+    });
+    return { ...usage, rows: pendingRows.length };
+  }
+
+  /** Expected usage of translating the sheet names, which is one request per language. */
+  estimateSheetNameUsage(sheetNames: string[], language: string): TokenUsage {
+    const request = this.buildSheetNameRequest(sheetNames, language);
+    return estimateRequest(request.systemPrompt, request.userPrompt, request.payload);
+  }
+
+  /**
+   * Makes a name valid for an Excel tab: no []:*?/\ characters, at most 31
+   * characters, and unique within `usedNames` (which is updated in place).
+   */
+  sanitizeSheetName(name: string, usedNames: Set<string>): string {
+    const base = name.replace(/[\[\]:*?\/\\]/g, '').trim().substring(0, 31) || 'Sheet';
+    let candidate = base;
+    let counter = 2;
+    while (usedNames.has(candidate.toLowerCase())) {
+      const suffix = ` (${counter++})`;
+      candidate = base.substring(0, 31 - suffix.length) + suffix;
+    }
+    usedNames.add(candidate.toLowerCase());
+    return candidate;
+  }
+
+  /**
+   * Interleaves each source column with its translation, e.g. "Question (EN)"
+   * followed by "Question (HI)".
+   */
+  buildBilingualSheet(sheet: SheetData, output: OutputSheet, language: string): OutputSheet {
+    const sourceCode = this.getLanguageCode('English');
+    const targetCode = this.getLanguageCode(language);
+    const headers: string[] = [];
+    sheet.headers.forEach(header => headers.push(`${header} (${sourceCode})`, `${header} (${targetCode})`));
+
+    const rows = sheet.rows.map((row, rowIndex) => {
+      const newRow: TranslationData = {};
+      sheet.headers.forEach((header, index) => {
+        newRow[`${header} (${sourceCode})`] = row[header];
+        newRow[`${header} (${targetCode})`] = output.rows[rowIndex]?.[output.headers[index]];
+      });
+      return newRow;
+    });
+
+    return { name: output.name, headers, rows };
+  }
+
+  /**
+   * Lays out the workbook for a plain-values export, keeping the original sheet
+   * order. Sheets without a translation are passed through unchanged.
+   */
+  buildOutputSheets(
+    sheets: SheetData[],
+    outputs: { [sheetName: string]: OutputSheet | undefined },
+    layout: ExportLayout,
+    language: string,
+    extraColumns: ExtraColumnOptions = {}
+  ): OutputSheet[] {
+    const result: OutputSheet[] = [];
+    sheets.forEach(sheet => {
+      const original: OutputSheet = { name: sheet.name, headers: sheet.headers, rows: sheet.rows };
+      const output = outputs[sheet.name];
+      if (!output) {
+        result.push(original);
+        return;
+      }
+      const translated = layout === 'bilingual' ? this.buildBilingualSheet(sheet, output, language) : output;
+      result.push(this.withExtraColumns(translated, this.getExtraColumns(sheet, output, extraColumns)));
+      if (layout === 'translated-with-original') {
+        result.push({ ...original, name: `${sheet.name} (${this.getLanguageCode('English')})` });
+      }
+    });
+    return result;
+  }
+
+  /** The optional columns to append to a translated sheet, with one value per row. */
+  private getExtraColumns(sheet: SheetData, output: OutputSheet, options: ExtraColumnOptions): { header: string; values: TranslationData[string][] }[] {
+    const columns: { header: string; values: TranslationData[string][] }[] = [];
+    const backTranslations = output.backTranslations;
+    if (options.includeBackTranslation && backTranslations) {
+      sheet.headers.forEach(header => {
+        const values = output.rows.map((row, rowIndex) => backTranslations[rowIndex]?.[header]);
+        if (values.every(value => value === undefined)) return;
+        columns.push({ header: `${header} (back-translation)`, values });
+        columns.push({
+          header: `${header} (similarity %)`,
+          values: values.map((value, rowIndex) => value === undefined
+            ? undefined
+            : Math.round(similarityScore(String(sheet.rows[rowIndex]?.[header] ?? ''), String(value)) * 100))
+        });
+      });
+    }
+    if (options.includeReviewStatus) {
+      columns.push({ header: this.REVIEW_STATUS_HEADER, values: output.rows.map((row, rowIndex) => output.reviewStatus?.[rowIndex] || 'pending') });
+    }
+    return columns;
+  }
+
+  private withExtraColumns(sheet: OutputSheet, columns: { header: string; values: TranslationData[string][] }[]): OutputSheet {
+    if (columns.length === 0) {
+      return sheet;
+    }
+    const rows = sheet.rows.map((row, rowIndex) => {
+      const newRow: TranslationData = { ...row };
+      columns.forEach(column => newRow[column.header] = column.values[rowIndex]);
+      return newRow;
+    });
+    return { ...sheet, headers: [...sheet.headers, ...columns.map(column => column.header)], rows };
+  }
+
+  /** One workbook with the given sheets, in `format`; CSV and TSV give a file per sheet. */
+  serializeSheets(sheets: OutputSheet[], fileName: string, language: string, format: Exclude<OutputFormat, 'json'> = 'xlsx'): OutputFile[] {
+    return this.serializeWorkbook(this.createWorkbook(sheets), this.buildOutputFileName(fileName, language, format), format);
+  }
+
+  /**
+   * The files for the results of a run. A single language produces one workbook;
+   * several languages are packaged as `options.packaging` asks. JSON always
+   * gives one file per language, laid out like the input (see `serializeJson`).
+   */
+  serializeTranslations(
+    workbookData: WorkbookData,
+    translations: LanguageOutputs[],
+    fileName: string,
+    options: ExportOptions
+  ): OutputFile[] {
+    if (options.format === 'json') {
+      return translations.map(translation => ({
+        name: this.buildOutputFileName(fileName, translation.language, 'json'),
+        data: this.serializeJson(workbookData, translation)
+      }));
+    }
+    const format = options.format;
+    if (translations.length === 1 || options.packaging === 'zip') {
+      return translations.flatMap(translation => this.serializeWorkbook(
+        this.createLanguageWorkbook(workbookData, translation, options),
+        this.buildOutputFileName(fileName, translation.language, format),
+        format
+      ));
+    }
+
+    // One workbook with the translated sheets of every language side by side
+    const layout = options.layout === 'translated-with-original' ? 'translated' : options.layout;
+    const combined: OutputSheet[] = [];
+    translations.forEach(translation => {
+      const translatedSheets = workbookData.sheets.filter(sheet => translation.sheets[sheet.name]);
+      this.buildOutputSheets(translatedSheets, translation.sheets, layout, translation.language, options).forEach(sheet => {
+        combined.push({
+          ...sheet,
+          name: translatedSheets.length === 1
+            ? translation.language
+            : `${this.getLanguageCode(translation.language)} - ${sheet.name}`
+        });
+      });
+    });
+    if (options.layout === 'translated-with-original') {
+      workbookData.sheets
+        .filter(sheet => translations.some(translation => translation.sheets[sheet.name]))
+        .forEach(sheet => combined.push({ name: `${sheet.name} (${this.getLanguageCode('English')})`, headers: sheet.headers, rows: sheet.rows }));
+    }
+    const qaSheet = options.includeQaSheet ? this.buildQaSheet(workbookData, translations) : null;
+    if (qaSheet) {
+      combined.push(qaSheet);
+    }
+    return this.serializeSheets(combined, fileName, translations.map(translation => translation.language).join('_'), format);
+  }
+
+  /**
+   * The input document with translated values: records keep their original
+   * (unflattened) keys, the file keeps its shape (one array, or an object of
+   * arrays keyed as in the input), and untranslated sheets are copied. The
+   * layout options and the QA sheet do not apply to JSON.
+   */
+  private serializeJson(workbookData: WorkbookData, translation: LanguageOutputs): string {
+    const sheets = workbookData.sheets.map(sheet => {
+      const output = translation.sheets[sheet.name];
+      const nulls = workbookData.jsonLayout?.nulls[sheet.name];
+      const records = sheet.rows.map((row, rowIndex) => {
+        const record: TranslationData = {};
+        sheet.headers.forEach((header, index) => {
+          const value = output ? output.rows[rowIndex]?.[output.headers[index]] : row[header];
+          // Keys the source record did not have stay absent
+          if (header in row && value !== undefined) {
+            record[header] = value;
+          }
+        });
+        nulls?.[rowIndex]?.forEach(key => record[key] = null);
+        return unflattenRecord(record);
+      });
+      return { key: workbookData.jsonLayout?.keys[sheet.name] ?? sheet.name, records };
+    });
+
+    const isArray = workbookData.jsonLayout ? workbookData.jsonLayout.isArray : sheets.length === 1;
+    if (isArray) {
+      return JSON.stringify(sheets[0]?.records ?? [], null, 2);
+    }
+    const document: { [key: string]: unknown[] } = {};
+    sheets.forEach(sheet => document[sheet.key] = sheet.records);
+    return JSON.stringify(document, null, 2);
+  }
+
+  /**
+   * Writes a workbook in a spreadsheet or delimited format. Spreadsheet formats
+   * give one file; CSV and TSV give one file per sheet. JSON is written from the
+   * records instead, by `serializeJson`.
+   */
+  private serializeWorkbook(workbook: any, fileName: string, format: Exclude<OutputFormat, 'json'>): OutputFile[] {
+    if (format === 'xlsx' || format === 'ods') {
+      return [{ name: fileName, data: new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: format, cellStyles: true })) }];
+    }
+
+    const baseName = fileName.replace(/\.[^.]+$/, '');
+    return workbook.SheetNames.map((name: string) => ({
+      name: workbook.SheetNames.length === 1 ? fileName : `${baseName}_${name}.${format}`,
+      // A BOM so Excel opens CSV as UTF-8; TSV is left without one, as Google Sheets writes it
+      data: format === 'csv'
+        ? '\uFEFF' + XLSX.utils.sheet_to_csv(workbook.Sheets[name])
+        : XLSX.utils.sheet_to_csv(workbook.Sheets[name], { FS: '\t' })
+    }));
+  }
+
+  private createLanguageWorkbook(workbookData: WorkbookData, translation: LanguageOutputs, options: ExportOptions): any {
+    const workbook = options.writeMode === 'preserve' && options.layout !== 'bilingual'
+      ? this.createWorkbookPreservingFormat(
+          workbookData,
+          translation.sheets,
+          options.layout === 'translated-with-original',
+          options
+        )
+      : this.createWorkbook(
+          this.buildOutputSheets(workbookData.sheets, translation.sheets, options.layout, translation.language, options)
+        );
+
+    const qaSheet = options.includeQaSheet ? this.buildQaSheet(workbookData, [translation]) : null;
+    if (qaSheet) {
+      const usedNames = new Set<string>(workbook.SheetNames.map((name: string) => name.toLowerCase()));
+      const worksheet = XLSX.utils.json_to_sheet(qaSheet.rows, { header: qaSheet.headers });
+      XLSX.utils.book_append_sheet(workbook, worksheet, this.sanitizeSheetName(qaSheet.name, usedNames));
+    }
+    return workbook;
+  }
+
+  /**
+   * Lists the QA issues of every translated sheet, one per line with the
+   * worksheet row number, or returns null when the checks found nothing.
+   */
+  buildQaSheet(workbookData: WorkbookData, translations: LanguageOutputs[]): OutputSheet | null {
+    const headers = ['Language', 'Sheet', 'Row', 'Column', 'Check', 'Issue', 'Source', 'Translation'];
+    const rows: TranslationData[] = [];
+    translations.forEach(translation => {
+      workbookData.sheets.forEach(sheet => {
+        const output = translation.sheets[sheet.name];
+        output?.qaIssues?.forEach(issue => {
+          const outputHeader = output.headers[sheet.headers.indexOf(issue.column)];
+          rows.push({
+            'Language': translation.language,
+            'Sheet': sheet.name,
+            'Row': sheet.rowNumbers[issue.rowIndex] + 1,
+            'Column': issue.column,
+            'Check': QA_CHECK_LABELS[issue.kind],
+            'Issue': issue.message,
+            'Source': sheet.rows[issue.rowIndex]?.[issue.column] ?? '',
+            'Translation': output.rows[issue.rowIndex]?.[outputHeader] ?? ''
+          });
+        });
+      });
+    });
+    return rows.length > 0 ? { name: this.QA_SHEET_NAME, headers, rows } : null;
+  }
+
+  private createWorkbook(sheets: OutputSheet[]): any {
+    const workbook = XLSX.utils.book_new();
+    const usedNames = new Set<string>();
+    sheets.forEach(sheet => {
+      const worksheet = XLSX.utils.json_to_sheet(sheet.rows, { header: sheet.headers });
+      XLSX.utils.book_append_sheet(workbook, worksheet, this.sanitizeSheetName(sheet.name, usedNames));
+    });
+    return workbook;
+  }
+
+  /**
+   * Writes a translation into a fresh copy of the uploaded workbook, replacing only
+   * the translated cell values so column widths, merges, number formats, hidden
+   * columns and comments survive. `outputs` is keyed by original sheet name;
+   * sheets without an entry are left untouched. With `includeOriginalSheets`,
+   * an untouched copy of each translated sheet is inserted after it; with
+   * `extraColumns`, the review status and back-translation columns go after the last one.
+   */
+  private createWorkbookPreservingFormat(
+    workbookData: WorkbookData,
+    outputs: { [sheetName: string]: OutputSheet | undefined },
+    includeOriginalSheets: boolean,
+    extraColumns: ExtraColumnOptions = {}
+  ): any {
+    const workbook = XLSX.read(workbookData.data, this.READ_OPTIONS);
+    const usedNames = new Set<string>(
+      workbook.SheetNames.filter((name: string) => !outputs[name]).map((name: string) => name.toLowerCase())
+    );
+
+    workbookData.sheets.forEach(sheet => {
+      const output = outputs[sheet.name];
+      if (!output) return;
+
+      const worksheet = workbook.Sheets[sheet.name];
+      if (includeOriginalSheets) {
+        const copyName = this.sanitizeSheetName(`${sheet.name} (${this.getLanguageCode('English')})`, usedNames);
+        const position = workbook.SheetNames.indexOf(sheet.name) + 1;
+        workbook.SheetNames.splice(position, 0, copyName);
+        workbook.Sheets[copyName] = JSON.parse(JSON.stringify(worksheet));
+        // Workbook.Sheets carries per-sheet properties (e.g. hidden) by position
+        const sheetProps = workbook.Workbook?.Sheets;
+        if (sheetProps?.[position - 1]) {
+          sheetProps.splice(position, 0, { ...sheetProps[position - 1], name: copyName });
+        }
+      }
+
+      sheet.headers.forEach((header, index) => {
+        const column = sheet.columnIndexes[header];
+        if (column === undefined) return;
+
+        this.writeCellValue(worksheet, sheet.headerRow, column, output.headers[index]);
+        output.rows.forEach((row, rowIndex) => {
+          this.writeCellValue(worksheet, sheet.rowNumbers[rowIndex], column, row[output.headers[index]]);
+        });
+      });
+
+      const extras = this.getExtraColumns(sheet, output, extraColumns);
+      if (extras.length > 0 && worksheet['!ref']) {
+        const range = XLSX.utils.decode_range(worksheet['!ref']);
+        extras.forEach(extra => {
+          const column = ++range.e.c;
+          this.writeCellValue(worksheet, sheet.headerRow, column, extra.header);
+          extra.values.forEach((value, rowIndex) => this.writeCellValue(worksheet, sheet.rowNumbers[rowIndex], column, value));
+        });
+        worksheet['!ref'] = XLSX.utils.encode_range(range);
+      }
+
+      const newName = this.sanitizeSheetName(output.name, usedNames);
+      if (newName !== sheet.name) {
+        const position = workbook.SheetNames.indexOf(sheet.name);
+        workbook.SheetNames[position] = newName;
+        if (workbook.Workbook?.Sheets?.[position]) {
+          workbook.Workbook.Sheets[position].name = newName;
+        }
+        workbook.Sheets[newName] = worksheet;
+        delete workbook.Sheets[sheet.name];
+      }
+    });
+
+    return workbook;
+  }
+
+  private writeCellValue(worksheet: any, row: number, column: number, value: TranslationData[string]): void {
+    if (value === undefined || value === null || row === undefined) return;
+
+    const address = XLSX.utils.encode_cell({ r: row, c: column });
+    const cell = worksheet[address] || (worksheet[address] = {});
+    // Formulas are left to recalculate from the (translated) inputs
+    if (cell.f) return;
+
+    cell.t = typeof value === 'number' ? 'n' : typeof value === 'boolean' ? 'b' : 's';
+    cell.v = value;
+    // Drop the cached formatted/rich text so the new value is what gets written
+    delete cell.w;
+    delete cell.h;
+    delete cell.r;
+  }
+
+  protected buildOutputFileName(fileName: string, suffix: string, extension: string = 'xlsx'): string {
+    const originalFileName = fileName.replace(INPUT_EXTENSION_PATTERN, '') || 'translated';
+    return `${originalFileName}_${suffix}.${extension}`;
+  }
+}
@@ -0,0 +1,206 @@
+import { Injectable } from '@angular/core';
+import { TranslationData, TranslationCheckpoint, ColumnPolicies, SkipRules, HeaderMapping } from './translation-core';
+import { TranslationProviderId } from './translation-provider';
+import { hashText } from './translation-memory';
+import { ScriptSettings } from './script-postprocessor';
+import { GlossaryEntry } from './glossary';
+import { SchedulerSettings } from './chunk-scheduler';
+
+/** Everything that decides a job's output; a change in any of it, apart from `scheduler`, starts a new job. */
+export interface JobSettings {
+  languages: string[];
+  sheets: string[];
+  prompts: { [language: string]: string };
+  provider: TranslationProviderId;
+  model: string;
+  translateSheetNames: boolean;
+  skipRules: SkipRules;
+  columnPolicies: { [sheetName: string]: ColumnPolicies };
+  scriptSettings: { [language: string]: ScriptSettings };
+  /** Glossary entries sent per language; absent for jobs saved before they were part of the ID. */
+  glossary?: { [language: string]: GlossaryEntry[] };
+  /** Reviewed headers per sheet and language; absent for jobs saved before they were part of the ID. */
+  headerMappings?: { [sheetName: string]: { [language: string]: HeaderMapping | undefined } };
+  /**
+   * Pacing the job last ran with, restored on resume. Not part of the ID:
+   * checkpoints are saved per row, so lowering the rate after 429s must not orphan them.
+   */
+  scheduler?: SchedulerSettings;
+}
+
+/** A 'completed' job is deleted as soon as the run ends; one is only left over if that delete failed. */
+export type JobStatus = 'running' | 'failed' | 'completed';
+
+export interface TranslationJob {
+  id: string;
+  fileName: string;
+  fileHash: string;
+  /** The uploaded file, so a job can be resumed after a reload without re-uploading. */
+  data: Uint8Array;
+  settings: JobSettings;
+  status: JobStatus;
+  createdAt: number;
+  updatedAt: number;
+  /** Translated sheet names per language. */
+  sheetNames: { [language: string]: string[] | undefined };
+  /** Translated headers keyed by `${language}\u0001${sheetName}`. */
+  headers: { [key: string]: string[] | undefined };
+  /** Number of rows saved so far, for display; counted from the saved rows whenever the job is read. */
+  completedRows: number;
+  /** Prompt library version used per language; absent for jobs saved before the library existed. */
+  promptVersions?: { [language: string]: number | undefined };
+}
+
+interface StoredRow {
+  id: string;
+  jobId: string;
+  language: string;
+  sheetName: string;
+  rowIndex: number;
+  values: TranslationData;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class TranslationJobService {
+  private readonly DB_NAME = 'translation-jobs';
+  private readonly JOB_STORE = 'jobs';
+  private readonly ROW_STORE = 'rows';
+  private dbPromise?: Promise<IDBDatabase>;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.JOB_STORE, { keyPath: 'id' });
+          const rows = request.result.createObjectStore(this.ROW_STORE, { keyPath: 'id' });
+          rows.createIndex('jobId', 'jobId');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error || new Error('Could not open the job store.'));
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async runTransaction<T>(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    work: (transaction: IDBTransaction) => IDBRequest<T> | void
+  ): Promise<T | undefined> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeNames, mode);
+      const request = work(transaction);
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error || new Error('Job store transaction failed.'));
+      // An abort, e.g. when the storage quota is exceeded, does not always fire onerror
+      transaction.onabort = () => reject(transaction.error || new Error('Job store transaction was aborted.'));
+    });
+  }
+
+  async computeFileHash(data: Uint8Array): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  buildJobId(fileHash: string, settings: JobSettings): string {
+    const { scheduler, ...identity } = settings;
+    return `${fileHash}-${hashText(JSON.stringify(identity))}`;
+  }
+
+  async getJob(id: string): Promise<TranslationJob | undefined> {
+    const job = await this.runTransaction<TranslationJob>([this.JOB_STORE], 'readonly',
+      transaction => transaction.objectStore(this.JOB_STORE).get(id));
+    if (job) {
+      job.completedRows = await this.countRows(id);
+    }
+    return job;
+  }
+
+  private async countRows(jobId: string): Promise<number> {
+    return await this.runTransaction<number>([this.ROW_STORE], 'readonly',
+      transaction => transaction.objectStore(this.ROW_STORE).index('jobId').count(IDBKeyRange.only(jobId))) || 0;
+  }
+
+  async saveJob(job: TranslationJob): Promise<void> {
+    job.updatedAt = Date.now();
+    await this.runTransaction([this.JOB_STORE], 'readwrite', transaction => {
+      transaction.objectStore(this.JOB_STORE).put(job);
+    });
+  }
+
+  /** Jobs that stopped before finishing, most recent first. Finished jobs left behind are deleted. */
+  async listUnfinished(): Promise<TranslationJob[]> {
+    const jobs = await this.runTransaction<TranslationJob[]>([this.JOB_STORE], 'readonly',
+      transaction => transaction.objectStore(this.JOB_STORE).getAll());
+    const unfinished: TranslationJob[] = [];
+    for (const job of jobs || []) {
+      if (job.status === 'running' || job.status === 'failed') {
+        job.completedRows = await this.countRows(job.id);
+        unfinished.push(job);
+      } else {
+        await this.deleteJob(job.id);
+      }
+    }
+    return unfinished.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async deleteJob(id: string): Promise<void> {
+    await this.runTransaction([this.JOB_STORE, this.ROW_STORE], 'readwrite', transaction => {
+      transaction.objectStore(this.JOB_STORE).delete(id);
+      const cursorRequest = transaction.objectStore(this.ROW_STORE).index('jobId').openCursor(IDBKeyRange.only(id));
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+    });
+  }
+
+  private async getRows(jobId: string, language: string, sheetName: string): Promise<{ [rowIndex: number]: TranslationData }> {
+    const stored = await this.runTransaction<StoredRow[]>([this.ROW_STORE], 'readonly',
+      transaction => transaction.objectStore(this.ROW_STORE).index('jobId').getAll(IDBKeyRange.only(jobId)));
+    const rows: { [rowIndex: number]: TranslationData } = {};
+    (stored || [])
+      .filter(row => row.language === language && row.sheetName === sheetName)
+      .forEach(row => rows[row.rowIndex] = row.values);
+    return rows;
+  }
+
+  /** Loads what an earlier attempt saved for one sheet and language, and saves new work to the job as it completes. */
+  async createCheckpoint(job: TranslationJob, language: string, sheetName: string): Promise<TranslationCheckpoint> {
+    const headerKey = `${language}\u0001${sheetName}`;
+    return {
+      headers: job.headers[headerKey],
+      rows: await this.getRows(job.id, language, sheetName),
+      saveHeaders: async (headers: string[]) => {
+        job.headers[headerKey] = headers;
+        await this.saveJob(job);
+      },
+      saveRows: async (rows: { [rowIndex: number]: TranslationData }) => {
+        const entries = Object.entries(rows);
+        await this.runTransaction([this.ROW_STORE], 'readwrite', transaction => {
+          const store = transaction.objectStore(this.ROW_STORE);
+          entries.forEach(([rowIndex, values]) => {
+            const stored: StoredRow = {
+              id: `${job.id}\u0001${headerKey}\u0001${rowIndex}`,
+              jobId: job.id,
+              language,
+              sheetName,
+              rowIndex: Number(rowIndex),
+              values
+            };
+            store.put(stored);
+          });
+        });
+        // Only the rows are written: the job record holds the whole uploaded file
+        job.completedRows += entries.length;
+      }
+    };
+  }
+}
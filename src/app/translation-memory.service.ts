@@ -0,0 +1,169 @@
+import { Injectable } from '@angular/core';
+import { MemoryEntry, TranslationMemory, normalizeSourceText } from './translation-memory';
+import { escapeXml } from './xliff';
+
+interface StoredMemoryEntry extends MemoryEntry {
+  id: string;
+  updatedAt: number;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class TranslationMemoryService implements TranslationMemory {
+  private readonly DB_NAME = 'translation-memory';
+  private readonly STORE_NAME = 'entries';
+  private dbPromise?: Promise<IDBDatabase>;
+
+  private buildId(source: string, language: string, promptHash: string): string {
+    return `${language}\u0001${promptHash}\u0001${source}`;
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.STORE_NAME, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error || new Error('Could not open the translation memory.'));
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async runTransaction<T>(
+    mode: IDBTransactionMode,
+    work: (store: IDBObjectStore) => IDBRequest<T> | void
+  ): Promise<T | undefined> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.STORE_NAME, mode);
+      const request = work(transaction.objectStore(this.STORE_NAME));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error || new Error('Translation memory transaction failed.'));
+    });
+  }
+
+  async lookup(sources: string[], language: string, promptHash: string): Promise<Map<string, string>> {
+    const found = new Map<string, string>();
+    if (sources.length === 0) {
+      return found;
+    }
+
+    const db = await this.openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(this.STORE_NAME, 'readonly');
+      const store = transaction.objectStore(this.STORE_NAME);
+      sources.forEach(source => {
+        // Prefer an entry made with the same prompt, then a prompt-independent one
+        [promptHash, ''].forEach(hash => {
+          const request = store.get(this.buildId(source, language, hash));
+          request.onsuccess = () => {
+            const entry: StoredMemoryEntry | undefined = request.result;
+            if (entry && (hash === promptHash || !found.has(source))) {
+              found.set(source, entry.target);
+            }
+          };
+        });
+      });
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error || new Error('Translation memory lookup failed.'));
+    });
+    return found;
+  }
+
+  async store(entries: MemoryEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const updatedAt = Date.now();
+    await this.runTransaction('readwrite', store => {
+      entries.forEach(entry => {
+        const stored: StoredMemoryEntry = {
+          ...entry,
+          id: this.buildId(entry.source, entry.language, entry.promptHash),
+          updatedAt
+        };
+        store.put(stored);
+      });
+    });
+  }
+
+  async getAll(): Promise<MemoryEntry[]> {
+    const entries = await this.runTransaction<StoredMemoryEntry[]>('readonly', store => store.getAll());
+    return (entries || []).map(({ source, target, language, promptHash }) => ({ source, target, language, promptHash }));
+  }
+
+  async count(): Promise<number> {
+    return (await this.runTransaction<number>('readonly', store => store.count())) || 0;
+  }
+
+  async clear(): Promise<void> {
+    await this.runTransaction('readwrite', store => store.clear());
+  }
+
+  /**
+   * Serializes the memory as TMX 1.4. The language name and prompt hash travel
+   * as `x-` properties so a re-import restores the exact lookup keys.
+   */
+  async exportTmx(getLanguageCode: (language: string) => string): Promise<string> {
+    const entries = await this.getAll();
+    const units = entries.map(entry => [
+      '    <tu>',
+      `      <prop type="x-language">${escapeXml(entry.language)}</prop>`,
+      `      <prop type="x-prompt-hash">${escapeXml(entry.promptHash)}</prop>`,
+      `      <tuv xml:lang="en"><seg>${escapeXml(entry.source)}</seg></tuv>`,
+      `      <tuv xml:lang="${escapeXml(getLanguageCode(entry.language).toLowerCase())}"><seg>${escapeXml(entry.target)}</seg></tuv>`,
+      '    </tu>'
+    ].join('\n'));
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<tmx version="1.4">',
+      '  <header creationtool="Multilingual Excel Translator" creationtoolversion="1.0.0" segtype="block" o-tmf="indexeddb" adminlang="en" srclang="en" datatype="plaintext"/>',
+      '  <body>',
+      ...units,
+      '  </body>',
+      '</tmx>'
+    ].join('\n');
+  }
+
+  /**
+   * Reads a TMX document into the memory and returns the number of units stored.
+   * Units from other tools carry no prompt hash and match any prompt.
+   */
+  async importTmx(xml: string, getLanguageName: (code: string) => string): Promise<number> {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('The file is not valid TMX/XML.');
+    }
+
+    const entries: MemoryEntry[] = [];
+    Array.from(doc.getElementsByTagName('tu')).forEach(unit => {
+      const props: { [type: string]: string } = {};
+      Array.from(unit.getElementsByTagName('prop')).forEach(prop => {
+        props[prop.getAttribute('type') || ''] = prop.textContent || '';
+      });
+
+      const variants = Array.from(unit.getElementsByTagName('tuv')).map(tuv => ({
+        lang: (tuv.getAttribute('xml:lang') || tuv.getAttribute('lang') || '').toLowerCase(),
+        text: tuv.getElementsByTagName('seg')[0]?.textContent || ''
+      }));
+      const source = variants.find(variant => variant.lang === 'en' || variant.lang.startsWith('en-'));
+      if (!source || !source.text.trim()) return;
+
+      variants.filter(variant => variant !== source && variant.text.trim()).forEach(target => {
+        entries.push({
+          source: normalizeSourceText(source.text),
+          target: target.text,
+          language: props['x-language'] || getLanguageName(target.lang.split('-')[0]),
+          promptHash: props['x-prompt-hash'] || ''
+        });
+      });
+    });
+
+    await this.store(entries);
+    return entries.length;
+  }
+}
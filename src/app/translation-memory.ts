@@ -0,0 +1,38 @@
+export interface MemoryEntry {
+  /** Normalized source text. */
+  source: string;
+  target: string;
+  language: string;
+  /** Hash of the prompt that produced the translation; empty for prompt-independent (imported) entries. */
+  promptHash: string;
+}
+
+export interface MemoryStats {
+  hits: number;
+  misses: number;
+}
+
+/** Exact-match store consulted before text is sent to the model. */
+export interface TranslationMemory {
+  /** Resolves to the translations found, keyed by normalized source text. */
+  lookup(sources: string[], language: string, promptHash: string): Promise<Map<string, string>>;
+  store(entries: MemoryEntry[]): Promise<void>;
+}
+
+export function normalizeSourceText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+/** Fast non-cryptographic 53-bit hash (cyrb53), returned as hex. */
+export function hashText(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
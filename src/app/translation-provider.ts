@@ -0,0 +1,373 @@
+import { KeyPool, KeyFailureKind, classifyKeyFailure } from './key-pool';
+import { ROW_ID_KEY } from './response-schema';
+import { CoreLogger } from './translation-core';
+
+export type TranslationProviderId = 'gemini' | 'openai' | 'offline';
+
+export interface GeminiProviderConfig {
+  provider: 'gemini';
+  apiKey: string;
+  model: string;
+  /** When set, every request takes its key from the pool instead of using `apiKey`. */
+  keyPool?: KeyPool;
+}
+
+export interface OpenAICompatibleProviderConfig {
+  provider: 'openai';
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+}
+
+export interface OfflineProviderConfig {
+  provider: 'offline';
+  prefix: string;
+}
+
+export type ProviderConfig = GeminiProviderConfig | OpenAICompatibleProviderConfig | OfflineProviderConfig;
+
+/** Provider-neutral subset of JSON Schema used to constrain model output. */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string';
+  properties?: { [name: string]: JsonSchema };
+  required?: string[];
+  items?: JsonSchema;
+  additionalProperties?: boolean;
+  /** Allows null as well as the declared type. */
+  nullable?: boolean;
+}
+
+/** Requests sent and tokens billed, as reported by the endpoint. */
+export interface TokenUsage {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface TranslationProvider {
+  readonly id: TranslationProviderId;
+  readonly label: string;
+  /** Called whenever the endpoint answers 429, with the delay before the next attempt. */
+  onRateLimited?: (retryAfterMs: number) => void;
+  /** Called after every successful response with the usage the endpoint reports for it. */
+  onUsage?: (usage: TokenUsage) => void;
+  /** With a `responseSchema`, the model is asked for JSON that conforms to it. */
+  complete(systemPrompt: string, userPrompt: string, responseSchema?: JsonSchema): Promise<string>;
+}
+
+export interface GeminiApiResponse {
+  candidates?: Array<{
+    content?: {
+      parts?: Array<{
+        text?: string;
+      }>;
+    };
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    /** Thinking models bill their reasoning as output. */
+    thoughtsTokenCount?: number;
+  };
+}
+
+export interface GeminiApiError {
+  error?: {
+    message?: string;
+  };
+}
+
+export interface OpenAIChatResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+    };
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  };
+}
+
+/** Gemini takes an OpenAPI-style schema: upper-case types, `nullable`, no `additionalProperties`. */
+function toGeminiSchema(schema: JsonSchema): object {
+  return {
+    type: schema.type.toUpperCase(),
+    ...(schema.nullable ? { nullable: true } : {}),
+    ...(schema.properties ? {
+      properties: Object.fromEntries(Object.entries(schema.properties).map(([name, property]) => [name, toGeminiSchema(property)])),
+      propertyOrdering: Object.keys(schema.properties)
+    } : {}),
+    ...(schema.required ? { required: schema.required } : {}),
+    ...(schema.items ? { items: toGeminiSchema(schema.items) } : {})
+  };
+}
+
+/** OpenAI structured outputs take standard JSON Schema, with null expressed as a type union. */
+function toOpenAISchema(schema: JsonSchema): object {
+  return {
+    type: schema.nullable ? [schema.type, 'null'] : schema.type,
+    ...(schema.properties ? {
+      properties: Object.fromEntries(Object.entries(schema.properties).map(([name, property]) => [name, toOpenAISchema(property)]))
+    } : {}),
+    ...(schema.required ? { required: schema.required } : {}),
+    ...(schema.additionalProperties !== undefined ? { additionalProperties: schema.additionalProperties } : {}),
+    ...(schema.items ? { items: toOpenAISchema(schema.items) } : {})
+  };
+}
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash-preview-05-20';
+
+export const PROVIDER_LABELS: { [id in TranslationProviderId]: string } = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible endpoint',
+  offline: 'Offline stub (no network)'
+};
+
+/**
+ * POSTs a JSON payload, backing off exponentially on 429/503 and network failures.
+ * `extractText` turns a successful response body into the model's text output;
+ * `onRateLimited` hears about every 429 so callers can slow down other requests too,
+ * and `onResponse` sees every successful body, e.g. to read its token usage.
+ * `giveUp` sees every error response first; returning true throws at once
+ * instead of retrying, e.g. so another API key can be tried. A 429 is still
+ * reported to `onRateLimited` first.
+ */
+async function postWithRetry<T>(
+  url: string,
+  headers: { [name: string]: string },
+  payload: unknown,
+  logger: CoreLogger,
+  extractText: (body: T) => string | undefined,
+  onRateLimited?: (retryAfterMs: number) => void,
+  onResponse?: (body: T) => void,
+  giveUp?: (status: number, message: string, retryAfterMs: number) => boolean
+): Promise<string> {
+  const maxRetries = 5;
+  let delay = 1000;
+
+  for (let i = 0; i < maxRetries; i++) {
+    let final = false;
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(payload)
+      });
+
+      if (!response.ok && giveUp) {
+        const errorBody: GeminiApiError = await response.clone().json().catch(() => ({}));
+        const message = errorBody.error?.message || response.statusText;
+        const retryAfterMs = (Number(response.headers.get('Retry-After')) || 0) * 1000;
+        if (giveUp(response.status, message, retryAfterMs)) {
+          if (response.status === 429) {
+            onRateLimited?.(Math.max(delay, retryAfterMs));
+          }
+          final = true;
+          throw new Error(`API Error: ${response.statusText} - ${message}`);
+        }
+      }
+
+      if (response.ok) {
+        const result: T = await response.json();
+        onResponse?.(result);
+        const text = extractText(result);
+        if (text) {
+          return text;
+        }
+        logger.error("API Response with no content:", JSON.stringify(result, null, 2));
+        throw new Error("API returned a successful response but with no content. Check safety filters or console for details.");
+      }
+
+      if (response.status === 503 || response.status === 429) {
+        if (response.status === 429) {
+          const retryAfter = Number(response.headers.get('Retry-After'));
+          if (retryAfter > 0) {
+            delay = Math.max(delay, retryAfter * 1000);
+          }
+          onRateLimited?.(delay);
+        }
+        logger.warn(`API returned status ${response.status}. Retrying in ${delay / 1000}s...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        delay *= 2;
+        continue;
+      }
+
+      const errorBody: GeminiApiError = await response.json().catch(() => ({}));
+      throw new Error(`API Error: ${response.statusText} - ${errorBody.error?.message || 'Unknown error'}`);
+
+    } catch (error) {
+      logger.error(`Fetch attempt ${i + 1} failed with error:`, error);
+      if (final || i === maxRetries - 1) throw error;
+      logger.warn(`Retrying...`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay *= 2;
+    }
+  }
+  throw new Error('API request failed after multiple retries.');
+}
+
+export class GeminiProvider implements TranslationProvider {
+  readonly id = 'gemini';
+  readonly label = PROVIDER_LABELS.gemini;
+  onRateLimited?: (retryAfterMs: number) => void;
+  onUsage?: (usage: TokenUsage) => void;
+
+  constructor(private config: GeminiProviderConfig, private logger: CoreLogger = console) {}
+
+  async complete(systemPrompt: string, userPrompt: string, responseSchema?: JsonSchema): Promise<string> {
+    const keyPool = this.config.keyPool;
+    if (!keyPool) {
+      return this.send(this.config.apiKey, systemPrompt, userPrompt, responseSchema);
+    }
+
+    // Quota and auth errors move on to the next key; other errors would fail with any key
+    for (;;) {
+      const apiKey = await keyPool.acquire();
+      let failure: { kind: KeyFailureKind; retryAfterMs: number } | undefined;
+      try {
+        const text = await this.send(apiKey, systemPrompt, userPrompt, responseSchema, (status, message, retryAfterMs) => {
+          const kind = classifyKeyFailure(status, message);
+          failure = kind ? { kind, retryAfterMs } : undefined;
+          return kind !== undefined;
+        });
+        keyPool.reportSuccess(apiKey);
+        return text;
+      } catch (error: any) {
+        keyPool.reportFailure(apiKey, error?.message || String(error), failure?.kind, failure?.retryAfterMs);
+        if (!failure) throw error;
+      }
+    }
+  }
+
+  private send(
+    apiKey: string,
+    systemPrompt: string,
+    userPrompt: string,
+    responseSchema?: JsonSchema,
+    giveUp?: (status: number, message: string, retryAfterMs: number) => boolean
+  ): Promise<string> {
+    const model = this.config.model || DEFAULT_GEMINI_MODEL;
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
+    const payload = {
+      contents: [{ parts: [{ text: userPrompt }] }],
+      systemInstruction: {
+        parts: [{ text: systemPrompt }]
+      },
+      generationConfig: {
+        temperature: 0.2,
+        topP: 1.0,
+        topK: 32,
+        maxOutputTokens: 8192,
+        ...(responseSchema ? { responseMimeType: 'application/json', responseSchema: toGeminiSchema(responseSchema) } : {})
+      },
+      safetySettings: [
+        { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
+        { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
+        { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
+        { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' }
+      ]
+    };
+
+    return postWithRetry<GeminiApiResponse>(url, {}, payload, this.logger,
+      result => result.candidates?.[0]?.content?.parts?.[0]?.text, this.onRateLimited,
+      result => this.onUsage?.({
+        requests: 1,
+        inputTokens: result.usageMetadata?.promptTokenCount || 0,
+        outputTokens: (result.usageMetadata?.candidatesTokenCount || 0) + (result.usageMetadata?.thoughtsTokenCount || 0)
+      }), giveUp);
+  }
+}
+
+export class OpenAICompatibleProvider implements TranslationProvider {
+  readonly id = 'openai';
+  readonly label = PROVIDER_LABELS.openai;
+  onRateLimited?: (retryAfterMs: number) => void;
+  onUsage?: (usage: TokenUsage) => void;
+
+  constructor(private config: OpenAICompatibleProviderConfig, private logger: CoreLogger = console) {}
+
+  complete(systemPrompt: string, userPrompt: string, responseSchema?: JsonSchema): Promise<string> {
+    const url = `${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    const headers: { [name: string]: string } = {};
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+    const payload = {
+      model: this.config.model,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      temperature: 0.2,
+      ...(responseSchema ? {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'translation', strict: true, schema: toOpenAISchema(responseSchema) }
+        }
+      } : {})
+    };
+
+    return postWithRetry<OpenAIChatResponse>(url, headers, payload, this.logger,
+      result => result.choices?.[0]?.message?.content ?? undefined, this.onRateLimited,
+      result => this.onUsage?.({
+        requests: 1,
+        inputTokens: result.usage?.prompt_tokens || 0,
+        outputTokens: result.usage?.completion_tokens || 0
+      }));
+  }
+}
+
+/**
+ * Deterministic provider for exercising the pipeline without a model.
+ * It echoes the payload that follows the last blank line of the user prompt,
+ * prefixing every string value (or comma-separated item) with `prefix`; row
+ * ids are copied unchanged, as the prompt asks the model to.
+ * Echoing keeps the payload's shape, so it satisfies any schema the payload already matches.
+ */
+export class OfflineStubProvider implements TranslationProvider {
+  readonly id = 'offline';
+  readonly label = PROVIDER_LABELS.offline;
+  /** Only requests are counted; nothing is billed. */
+  onUsage?: (usage: TokenUsage) => void;
+
+  constructor(private config: OfflineProviderConfig) {}
+
+  async complete(systemPrompt: string, userPrompt: string): Promise<string> {
+    this.onUsage?.({ requests: 1, inputTokens: 0, outputTokens: 0 });
+    const payload = userPrompt.substring(userPrompt.lastIndexOf('\n\n') + 2);
+    try {
+      return JSON.stringify(this.transform(JSON.parse(payload)));
+    } catch (error) {
+      return payload.split(',').map(item => this.config.prefix + item.trim()).join(', ');
+    }
+  }
+
+  private transform(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return value ? this.config.prefix + value : value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.transform(item));
+    }
+    if (value && typeof value === 'object') {
+      const result: { [key: string]: unknown } = {};
+      Object.entries(value).forEach(([key, item]) => {
+        result[key] = key === ROW_ID_KEY ? item : this.transform(item);
+      });
+      return result;
+    }
+    return value;
+  }
+}
+
+export function createTranslationProvider(config: ProviderConfig, logger: CoreLogger = console): TranslationProvider {
+  switch (config.provider) {
+    case 'gemini':
+      return new GeminiProvider(config, logger);
+    case 'openai':
+      return new OpenAICompatibleProvider(config, logger);
+    case 'offline':
+      return new OfflineStubProvider(config);
+  }
+}
@@ -0,0 +1,122 @@
+import { TokenUsage } from './translation-provider';
+import { estimateTokens } from './chunk-scheduler';
+import { escapeCsvField } from './glossary';
+
+/** Prices in US dollars per million tokens. */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/** Prices keyed by model name, as entered in the provider settings. */
+export interface PriceTable {
+  [model: string]: ModelPrice | undefined;
+}
+
+/** List prices when this table was written; edit them to match your plan. */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gemini-2.5-flash-preview-05-20': { inputPerMillion: 0.15, outputPerMillion: 3.5 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 }
+};
+
+/**
+ * Output tokens per token of the English payload. Text in Indic scripts takes
+ * roughly twice the tokens of the same text in English, and the response
+ * repeats the payload's keys, so this errs on the high side.
+ */
+const OUTPUT_TOKEN_RATIO = 2;
+
+/** A planned run: the requests it will send and the tokens they are expected to use. */
+export interface UsageEstimate extends TokenUsage {
+  /** Rows that will be sent to the model, after skip rules and translation memory. */
+  rows: number;
+}
+
+export interface UsageSummaryLine {
+  language: string;
+  estimated?: UsageEstimate;
+  actual: TokenUsage;
+}
+
+/** What one run was expected to cost and what it used, for budgeting per file. */
+export interface UsageSummary {
+  fileName: string;
+  provider: string;
+  model: string;
+  startedAt: number;
+  finishedAt: number;
+  status: 'completed' | 'failed';
+  lines: UsageSummaryLine[];
+  price?: ModelPrice;
+}
+
+export function emptyUsage(): TokenUsage {
+  return { requests: 0, inputTokens: 0, outputTokens: 0 };
+}
+
+export function addUsage(total: TokenUsage, usage: TokenUsage): TokenUsage {
+  return {
+    requests: total.requests + usage.requests,
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens
+  };
+}
+
+/** Expected usage of one request: its prompts in, a translation of `payload` out. */
+export function estimateRequest(systemPrompt: string, userPrompt: string, payload: string): TokenUsage {
+  return {
+    requests: 1,
+    inputTokens: estimateTokens(systemPrompt) + estimateTokens(userPrompt),
+    outputTokens: Math.ceil(estimateTokens(payload) * OUTPUT_TOKEN_RATIO)
+  };
+}
+
+/** Cost in US dollars, or undefined when the model has no price. */
+export function calculateCost(usage: TokenUsage, price?: ModelPrice): number | undefined {
+  if (!price) return undefined;
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1000000;
+}
+
+function formatCost(cost: number | undefined): string {
+  return cost === undefined ? '' : cost.toFixed(4);
+}
+
+/** One line per language plus a total, with estimated and actual usage side by side. */
+export function usageSummaryToCsv(summary: UsageSummary): string {
+  const header = [
+    'File', 'Provider', 'Model', 'Status', 'Started', 'Finished', 'Language',
+    'Rows to translate', 'Estimated requests', 'Estimated input tokens', 'Estimated output tokens', 'Estimated cost (USD)',
+    'Requests', 'Input tokens', 'Output tokens', 'Cost (USD)'
+  ];
+  const estimates = summary.lines.map(line => line.estimated).filter((estimate): estimate is UsageEstimate => estimate !== undefined);
+  const total: UsageSummaryLine = {
+    language: 'Total',
+    // A total over some of the languages would understate the run
+    estimated: estimates.length === summary.lines.length
+      ? estimates.reduce((sum, estimate) => ({ ...addUsage(sum, estimate), rows: sum.rows + estimate.rows }), { ...emptyUsage(), rows: 0 })
+      : undefined,
+    actual: summary.lines.reduce((sum, line) => addUsage(sum, line.actual), emptyUsage())
+  };
+  const lines = [...summary.lines, total].map(line => [
+    summary.fileName,
+    summary.provider,
+    summary.model,
+    summary.status,
+    new Date(summary.startedAt).toISOString(),
+    new Date(summary.finishedAt).toISOString(),
+    line.language,
+    line.estimated ? String(line.estimated.rows) : '',
+    line.estimated ? String(line.estimated.requests) : '',
+    line.estimated ? String(line.estimated.inputTokens) : '',
+    line.estimated ? String(line.estimated.outputTokens) : '',
+    line.estimated ? formatCost(calculateCost(line.estimated, summary.price)) : '',
+    String(line.actual.requests),
+    String(line.actual.inputTokens),
+    String(line.actual.outputTokens),
+    formatCost(calculateCost(line.actual, summary.price))
+  ].map(escapeCsvField).join(','));
+  return [header.join(','), ...lines].join('\r\n');
+}
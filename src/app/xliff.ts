@@ -0,0 +1,124 @@
+import { TranslationData } from './translation-core';
+
+/** A sheet as exported to XLIFF: its source cells and, when available, the model's draft translation. */
+export interface XliffSheet {
+  name: string;
+  headers: string[];
+  rows: TranslationData[];
+  /** One-based worksheet row of each entry in `rows`, for the translator's notes. */
+  rowNumbers: number[];
+  /** Draft headers and rows, keyed like an OutputSheet; absent when nothing was translated yet. */
+  translatedHeaders?: string[];
+  translatedRows?: TranslationData[];
+  /** Rows and columns exported as non-translatable. */
+  skippedRows: number[];
+  keptColumns: string[];
+}
+
+/** A translated cell read back from XLIFF. `rowIndex` is null for the header row. */
+export interface XliffUnit {
+  sheetName: string;
+  rowIndex: number | null;
+  columnIndex: number;
+  target: string;
+}
+
+const XLIFF_NAMESPACE = 'urn:oasis:names:tc:xliff:document:2.0';
+
+/** Unit IDs: `h-c3` for the third header, `r12-c3` for its cell in the twelfth data row. */
+const UNIT_ID_PATTERN = /^(?:h|r(\d+))-c(\d+)$/;
+
+/** Escapes text for XML element content and double-quoted attributes. */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function buildUnit(id: string, name: string, source: string, target: string | undefined, note: string, translatable: boolean): string {
+  // A machine translation is a draft: "initial" until a translator confirms it
+  const targetXml = target !== undefined ? `<target>${escapeXml(target)}</target>` : '';
+  return [
+    `    <unit id="${id}" name="${escapeXml(name)}"${translatable ? '' : ' translate="no"'}>`,
+    `      <notes><note category="location">${escapeXml(note)}</note></notes>`,
+    `      <segment state="${translatable ? 'initial' : 'final'}"><source>${escapeXml(source)}</source>${targetXml}</segment>`,
+    '    </unit>'
+  ].join('\n');
+}
+
+/**
+ * Serializes sheets as an XLIFF 2.0 document with one <file> per sheet and one
+ * <unit> per text cell, including the header row. Skipped rows and kept
+ * columns are marked translate="no" with their source as the target.
+ */
+export function buildXliff(sheets: XliffSheet[], targetLanguageCode: string): string {
+  const files = sheets.map((sheet, sheetIndex) => {
+    const kept = new Set(sheet.keptColumns);
+    const skipped = new Set(sheet.skippedRows);
+    const units: string[] = [];
+
+    sheet.headers.forEach((header, columnIndex) => {
+      const target = sheet.translatedHeaders?.[columnIndex];
+      units.push(buildUnit(`h-c${columnIndex + 1}`, header, header, kept.has(header) ? header : target, `Header of column "${header}"`, !kept.has(header)));
+    });
+
+    sheet.rows.forEach((row, rowIndex) => {
+      sheet.headers.forEach((header, columnIndex) => {
+        const source = row[header];
+        if (typeof source !== 'string' || !source.trim()) return;
+        const translatable = !kept.has(header) && !skipped.has(rowIndex);
+        const draft = sheet.translatedRows?.[rowIndex]?.[sheet.translatedHeaders?.[columnIndex] ?? header];
+        const target = translatable ? (draft === undefined || draft === null ? undefined : String(draft)) : source;
+        const note = `Row ${sheet.rowNumbers[rowIndex]}, column "${header}"${skipped.has(rowIndex) ? ' (kept in English by the row-skip rules)' : ''}`;
+        units.push(buildUnit(`r${rowIndex + 1}-c${columnIndex + 1}`, header, source, target, note, translatable));
+      });
+    });
+
+    return [`  <file id="f${sheetIndex + 1}" original="${escapeXml(sheet.name)}">`, ...units, '  </file>'].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff xmlns="${XLIFF_NAMESPACE}" version="2.0" srcLang="en" trgLang="${escapeXml(targetLanguageCode.toLowerCase())}">`,
+    ...files,
+    '</xliff>'
+  ].join('\n');
+}
+
+/**
+ * Reads the translatable units of an XLIFF 2.0 document. Units marked
+ * translate="no", without a target, or with an ID this app did not write are ignored.
+ */
+export function parseXliff(xml: string): { targetLanguageCode: string; units: XliffUnit[] } {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'xliff') {
+    throw new Error('The file is not valid XLIFF.');
+  }
+  if (!(root.getAttribute('version') || '').startsWith('2.')) {
+    throw new Error(`XLIFF version ${root.getAttribute('version') || 'unknown'} is not supported; please export XLIFF 2.0.`);
+  }
+
+  const units: XliffUnit[] = [];
+  Array.from(doc.getElementsByTagNameNS('*', 'file')).forEach(file => {
+    const sheetName = file.getAttribute('original') || '';
+    Array.from(file.getElementsByTagNameNS('*', 'unit')).forEach(unit => {
+      const match = (unit.getAttribute('id') || '').match(UNIT_ID_PATTERN);
+      if (!match || unit.getAttribute('translate') === 'no') return;
+
+      const targets = Array.from(unit.getElementsByTagNameNS('*', 'target'));
+      if (targets.length === 0) return;
+      units.push({
+        sheetName,
+        rowIndex: match[1] ? Number(match[1]) - 1 : null,
+        columnIndex: Number(match[2]) - 1,
+        // A translator may split a unit into several segments
+        target: targets.map(target => target.textContent || '').join('')
+      });
+    });
+  });
+
+  return { targetLanguageCode: root.getAttribute('trgLang') || '', units };
+}
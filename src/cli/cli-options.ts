@@ -0,0 +1,161 @@
+import { parseArgs } from 'node:util';
+import { readFileSync } from 'node:fs';
+import { TranslationProviderId, DEFAULT_GEMINI_MODEL } from '../app/translation-provider';
+import { SkipRules, SkipRuleOperator } from '../app/translation-core';
+import { OutputFormat } from '../app/file-formats';
+import { SchedulerSettings, DEFAULT_SCHEDULER_SETTINGS } from '../app/chunk-scheduler';
+
+export interface CliOptions {
+  /** Files and folders to translate; folders are read one level deep. */
+  inputs: string[];
+  languages: string[];
+  /** Prompt template text, or undefined for the built-in prompt of each language. */
+  prompt?: string;
+  gradeLevel?: string;
+  provider: TranslationProviderId;
+  model: string;
+  baseUrl: string;
+  /** Several Gemini keys form a pool that fails over on quota and auth errors. */
+  apiKeys: string[];
+  skipRules: SkipRules;
+  outDir: string;
+  format: OutputFormat;
+  translateSheetNames: boolean;
+  scheduler: SchedulerSettings;
+  verbose: boolean;
+  help: boolean;
+}
+
+export const USAGE = `Usage: npm run translate -- <file or folder>... --language <name> [options]
+
+Translates spreadsheets (xlsx, xls, ods, csv, tsv, json) and writes one file
+per language. Folders are translated file by file.
+
+Options:
+  -l, --language <name>        Target language; repeat or separate with commas
+  -p, --prompt-file <path>     Prompt template; {{language}} and {{gradeLevel}}
+                               are filled in (default: built-in prompt)
+      --grade-level <text>     Reading level for {{gradeLevel}} (default: 10th-grade)
+      --provider <id>          gemini, openai or offline (default: gemini)
+      --model <name>           Model name (default for gemini: ${DEFAULT_GEMINI_MODEL})
+      --base-url <url>         Endpoint for --provider openai
+      --api-key <key>          API key; defaults to GEMINI_API_KEY or OPENAI_API_KEY.
+                               Comma-separated Gemini keys fail over to each other
+      --skip-rules <path>      JSON file with rows to keep in English, e.g.
+                               {"combinator": "or", "conditions": [
+                                 {"column": "Type", "operator": "equals", "value": "Code"}]}
+  -o, --out-dir <path>         Output folder (default: translated)
+      --format <format>        xlsx, ods, csv, tsv or json (default: xlsx)
+      --keep-sheet-names       Do not translate sheet names
+      --concurrency <n>        Requests in flight at once (default: ${DEFAULT_SCHEDULER_SETTINGS.concurrency})
+      --requests-per-minute <n>  0 for no limit (default: ${DEFAULT_SCHEDULER_SETTINGS.requestsPerMinute})
+  -v, --verbose                Log every API response
+  -h, --help                   Show this help
+
+Exit codes: 0 when every file was translated, 1 when any file failed,
+2 for invalid options.`;
+
+const PROVIDERS: TranslationProviderId[] = ['gemini', 'openai', 'offline'];
+const FORMATS: OutputFormat[] = ['xlsx', 'ods', 'csv', 'tsv', 'json'];
+const SKIP_RULE_OPERATORS: SkipRuleOperator[] = ['equals', 'contains', 'regex', 'empty', 'in-list'];
+
+/** Parses the command line; throws with a message for the user when an option is invalid. */
+export function parseCliOptions(args: string[], env: { [name: string]: string | undefined }): CliOptions {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      'language': { type: 'string', short: 'l', multiple: true },
+      'prompt-file': { type: 'string', short: 'p' },
+      'grade-level': { type: 'string' },
+      'provider': { type: 'string', default: 'gemini' },
+      'model': { type: 'string' },
+      'base-url': { type: 'string' },
+      'api-key': { type: 'string' },
+      'skip-rules': { type: 'string' },
+      'out-dir': { type: 'string', short: 'o', default: 'translated' },
+      'format': { type: 'string', default: 'xlsx' },
+      'keep-sheet-names': { type: 'boolean', default: false },
+      'concurrency': { type: 'string' },
+      'requests-per-minute': { type: 'string' },
+      'verbose': { type: 'boolean', short: 'v', default: false },
+      'help': { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  const provider = values['provider'] as TranslationProviderId;
+  const format = values['format'] as OutputFormat;
+  const options: CliOptions = {
+    inputs: positionals,
+    languages: (values['language'] || []).flatMap(value => value.split(',')).map(value => value.trim()).filter(value => value),
+    prompt: values['prompt-file'] ? readFileSync(values['prompt-file'], 'utf8') : undefined,
+    gradeLevel: values['grade-level'],
+    provider,
+    model: values['model'] || (provider === 'gemini' ? DEFAULT_GEMINI_MODEL : ''),
+    baseUrl: values['base-url'] || '',
+    apiKeys: (values['api-key'] || (provider === 'openai' ? env['OPENAI_API_KEY'] : env['GEMINI_API_KEY']) || '')
+      .split(',').map(key => key.trim()).filter(key => key),
+    skipRules: values['skip-rules'] ? parseSkipRules(readFileSync(values['skip-rules'], 'utf8')) : { combinator: 'or', conditions: [] },
+    outDir: values['out-dir'] || 'translated',
+    format,
+    translateSheetNames: !values['keep-sheet-names'],
+    scheduler: {
+      ...DEFAULT_SCHEDULER_SETTINGS,
+      concurrency: parseCount(values['concurrency'], '--concurrency', DEFAULT_SCHEDULER_SETTINGS.concurrency, 1),
+      requestsPerMinute: parseCount(values['requests-per-minute'], '--requests-per-minute', DEFAULT_SCHEDULER_SETTINGS.requestsPerMinute, 0)
+    },
+    verbose: !!values['verbose'],
+    help: !!values['help']
+  };
+  if (options.help) {
+    return options;
+  }
+
+  if (options.inputs.length === 0) {
+    throw new Error('Please give at least one file or folder to translate.');
+  }
+  if (options.languages.length === 0) {
+    throw new Error('Please choose at least one target language with --language.');
+  }
+  if (!PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown provider "${provider}"; use one of ${PROVIDERS.join(', ')}.`);
+  }
+  if (!FORMATS.includes(format)) {
+    throw new Error(`Unknown format "${format}"; use one of ${FORMATS.join(', ')}.`);
+  }
+  if (provider !== 'offline' && options.apiKeys.length === 0) {
+    throw new Error(`Please pass --api-key or set ${provider === 'openai' ? 'OPENAI_API_KEY' : 'GEMINI_API_KEY'}.`);
+  }
+  if (provider === 'openai' && (!/^https?:\/\//.test(options.baseUrl) || !options.model)) {
+    throw new Error('Please pass --base-url and --model for the OpenAI-compatible endpoint.');
+  }
+  return options;
+}
+
+/** Reads skip rules as saved by the web app: a combinator and a list of conditions. */
+export function parseSkipRules(json: string): SkipRules {
+  const rules = JSON.parse(json) as Partial<SkipRules>;
+  if (!Array.isArray(rules.conditions)) {
+    throw new Error('The skip rules file needs a "conditions" array.');
+  }
+  rules.conditions.forEach(condition => {
+    if (!condition || typeof condition.column !== 'string' || !SKIP_RULE_OPERATORS.includes(condition.operator)) {
+      throw new Error(`Every skip condition needs a "column" and an "operator" (${SKIP_RULE_OPERATORS.join(', ')}).`);
+    }
+  });
+  return {
+    combinator: rules.combinator === 'and' ? 'and' : 'or',
+    conditions: rules.conditions.map(condition => ({ ...condition, value: String(condition.value ?? '') }))
+  };
+}
+
+function parseCount(value: string | undefined, name: string, fallback: number, min: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < min) {
+    throw new Error(`${name} needs a whole number of at least ${min}.`);
+  }
+  return count;
+}
@@ -0,0 +1,216 @@
+import * as XLSX from 'xlsx';
+import { readFileSync, writeFileSync, readdirSync, statSync, mkdirSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { TranslationCore, CoreLogger, OutputSheet, LanguageOutputs, DEFAULT_GRADE_LEVEL, renderPrompt } from '../app/translation-core';
+import { ProviderConfig, TranslationProvider, TokenUsage, createTranslationProvider } from '../app/translation-provider';
+import { KeyPool, KeyStats } from '../app/key-pool';
+import { RateLimiter } from '../app/chunk-scheduler';
+import { getDefaultScriptSettings } from '../app/script-postprocessor';
+import { runQaChecks } from '../app/qa-checks';
+import { INPUT_EXTENSION_PATTERN } from '../app/file-formats';
+import { emptyUsage, addUsage } from '../app/usage';
+import { CliOptions, USAGE, parseCliOptions } from './cli-options';
+
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+// The core reads and writes workbooks through the SheetJS global, as in the browser build
+(globalThis as { XLSX?: unknown }).XLSX = XLSX;
+
+function log(message: string): void {
+  process.stderr.write(message + '\n');
+}
+
+/** The files to translate: each file as given, and the spreadsheets directly inside each folder. */
+function collectInputFiles(inputs: string[]): string[] {
+  return inputs.flatMap(input => {
+    if (!statSync(input).isDirectory()) {
+      return [input];
+    }
+    return readdirSync(input)
+      // Skip the lock files Excel leaves next to open workbooks
+      .filter(name => INPUT_EXTENSION_PATTERN.test(name) && !name.startsWith('~$'))
+      .sort()
+      .map(name => join(input, name))
+      .filter(path => statSync(path).isFile());
+  });
+}
+
+/** Two inputs that differ only in folder or extension would write the same output files; returns them, if any. */
+function findNameCollision(files: string[]): [string, string] | undefined {
+  const seen = new Map<string, string>();
+  for (const path of files) {
+    const stem = basename(path).replace(INPUT_EXTENSION_PATTERN, '').toLowerCase();
+    const other = seen.get(stem);
+    if (other !== undefined) {
+      return [other, path];
+    }
+    seen.set(stem, path);
+  }
+  return undefined;
+}
+
+function buildProviderConfig(options: CliOptions, logger: CoreLogger): ProviderConfig {
+  switch (options.provider) {
+    case 'gemini': {
+      const stats: { [key: string]: KeyStats | undefined } = {};
+      const keyPool = options.apiKeys.length > 1 ? new KeyPool(options.apiKeys, stats, 'failover', logger) : undefined;
+      return { provider: 'gemini', apiKey: options.apiKeys[0], model: options.model, keyPool };
+    }
+    case 'openai':
+      return { provider: 'openai', baseUrl: options.baseUrl, apiKey: options.apiKeys[0], model: options.model };
+    case 'offline':
+      return { provider: 'offline', prefix: '[offline] ' };
+  }
+}
+
+/** Translates every non-empty sheet of one file into every language and writes the results. */
+async function translateFile(
+  core: TranslationCore,
+  path: string,
+  options: CliOptions,
+  provider: TranslationProvider,
+  rateLimiter: RateLimiter
+): Promise<string[]> {
+  const fileName = basename(path);
+  const workbookData = core.parseFile(new Uint8Array(readFileSync(path)), fileName);
+  const sheets = workbookData.sheets.filter(sheet => sheet.rows.length > 0);
+  if (sheets.length === 0) {
+    throw new Error('The file has no rows to translate.');
+  }
+
+  // CSV and TSV write a file per sheet and JSON has no sheets, so their QA issues go to a file of their own
+  const includeQaSheet = options.format === 'xlsx' || options.format === 'ods';
+  const translations: LanguageOutputs[] = [];
+  for (const language of options.languages) {
+    const systemPrompt = renderPrompt(options.prompt ?? core.getPromptTemplate(language), {
+      language,
+      gradeLevel: options.gradeLevel || DEFAULT_GRADE_LEVEL
+    });
+    const scriptSettings = getDefaultScriptSettings(language);
+    const outputNames = options.translateSheetNames
+      ? await core.translateSheetNames(sheets.map(sheet => sheet.name), language, provider)
+      : sheets.map(sheet => sheet.name);
+
+    const translatedSheets: { [sheetName: string]: OutputSheet | undefined } = {};
+    for (let i = 0; i < sheets.length; i++) {
+      const sheet = sheets[i];
+      let lastStep = '';
+      const result = await core.translateDataWithProgress(
+        sheet.rows,
+        sheet.headers,
+        systemPrompt,
+        language,
+        provider,
+        progress => {
+          if (progress.currentStep === lastStep) return;
+          lastStep = progress.currentStep;
+          log(`  ${language}, sheet ${i + 1} of ${sheets.length} (${sheet.name}): ${progress.currentStep}`);
+        },
+        { skipRules: options.skipRules, scriptSettings, scheduler: options.scheduler, rateLimiter }
+      );
+      const headerMap: { [column: string]: string } = {};
+      sheet.headers.forEach((header, index) => headerMap[header] = result.headers[index]);
+      const qaIssues = runQaChecks(sheet.rows, result.rows, sheet.headers, headerMap, language, {
+        skippedRows: result.skippedRows,
+        nativeDigits: scriptSettings.digits
+      });
+      if (qaIssues.length > 0) {
+        log(`  ${language}, ${sheet.name}: ${qaIssues.length} QA issue(s); see the QA ${includeQaSheet ? 'sheet' : 'file'}.`);
+      }
+      translatedSheets[sheet.name] = { name: outputNames[i], ...result, qaIssues };
+    }
+    translations.push({ language, sheets: translatedSheets });
+  }
+
+  const files = core.serializeTranslations(workbookData, translations, fileName, {
+    format: options.format,
+    layout: 'translated',
+    writeMode: 'preserve',
+    packaging: 'zip',
+    includeReviewStatus: false,
+    includeBackTranslation: false,
+    includeQaSheet
+  });
+  if (!includeQaSheet) {
+    translations.forEach(translation => {
+      const qaSheet = core.buildQaSheet(workbookData, [translation]);
+      if (qaSheet) {
+        files.push(...core.serializeSheets([qaSheet], fileName, `${translation.language}_QA`, options.format === 'tsv' ? 'tsv' : 'csv'));
+      }
+    });
+  }
+  mkdirSync(options.outDir, { recursive: true });
+  return files.map(file => {
+    const outputPath = join(options.outDir, file.name);
+    writeFileSync(outputPath, file.data);
+    return outputPath;
+  });
+}
+
+function formatUsage(usage: TokenUsage): string {
+  return `${usage.requests} request(s), ${usage.inputTokens} input and ${usage.outputTokens} output tokens`;
+}
+
+async function main(args: string[]): Promise<number> {
+  let options: CliOptions;
+  let files: string[];
+  try {
+    options = parseCliOptions(args, process.env);
+    if (options.help) {
+      log(USAGE);
+      return 0;
+    }
+    files = collectInputFiles(options.inputs);
+  } catch (error: any) {
+    log(`Error: ${error.message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (files.length === 0) {
+    log('Error: No spreadsheets found in the given folders.');
+    return EXIT_USAGE;
+  }
+  const collision = findNameCollision(files);
+  if (collision) {
+    log(`Error: ${collision[0]} and ${collision[1]} would be written to the same output files; rename one or translate them separately.`);
+    return EXIT_USAGE;
+  }
+
+  const logger: CoreLogger = {
+    // The core logs every API response; only shown with --verbose, and on stderr so stdout lists just the written files
+    log: options.verbose ? console.error : () => undefined,
+    warn: console.warn,
+    error: console.error
+  };
+  const core = new TranslationCore(logger);
+  const provider = createTranslationProvider(buildProviderConfig(options, logger), logger);
+  const rateLimiter = new RateLimiter(options.scheduler, logger);
+  provider.onRateLimited = retryAfterMs => rateLimiter.backOff(retryAfterMs);
+  let usage = emptyUsage();
+  provider.onUsage = requestUsage => usage = addUsage(usage, requestUsage);
+
+  const failed: string[] = [];
+  for (let i = 0; i < files.length; i++) {
+    const path = files[i];
+    log(`[${i + 1}/${files.length}] ${path}`);
+    try {
+      const outputs = await translateFile(core, path, options, provider, rateLimiter);
+      outputs.forEach(output => process.stdout.write(output + '\n'));
+    } catch (error: any) {
+      log(`  Failed: ${error?.message ?? error}`);
+      failed.push(path);
+    }
+  }
+
+  log(`${files.length - failed.length} of ${files.length} file(s) translated; ${formatUsage(usage)}.`);
+  if (failed.length > 0) {
+    log(`Failed: ${failed.join(', ')}`);
+    return EXIT_FAILED;
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(code => process.exit(code), error => {
+  log(`Error: ${error?.message ?? error}`);
+  process.exit(EXIT_FAILED);
+});